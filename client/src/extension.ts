@@ -1,14 +1,22 @@
 import * as path from 'path';
 import {
 	workspace,
+	window,
+	languages,
 	ExtensionContext,
 	commands,
+	Range,
+	Selection,
+	TextEditor,
+	TextEditorRevealType,
 } from "vscode";
 import {
 	LanguageClient,
 	LanguageClientOptions,
 	ServerOptions,
-	TransportKind
+	TransportKind,
+	Range as LspRange,
+	Location as LspLocation,
 } from 'vscode-languageclient/node';
 import * as fs from 'fs/promises';
 import * as os from 'os';
@@ -17,6 +25,18 @@ import { Uri } from 'vscode';
 
 let client: LanguageClient;
 
+// What the server finds at an address, see debugInfo.ts in the server.
+interface AddressLocation {
+	label?: string;
+	segment: string;
+	location?: LspLocation;
+	source: string;
+}
+
+// Lines excluded by conditional assembly, as last published by the server for each document.
+const inactiveRegionsByUri: Map<string, Range[]> = new Map();
+const inactiveRegionDecoration = window.createTextEditorDecorationType({ opacity: '0.5' });
+
 export function activate(context: ExtensionContext) {
 	// ADDED: Log to confirm the extension is activating
 	console.log('Activating ca65 extension...');
@@ -48,7 +68,22 @@ export function activate(context: ExtensionContext) {
 		documentSelector: [{ scheme: 'file', language: 'ca65' }],
 		synchronize: {
 			configurationSection: 'ca65',
-			fileEvents: workspace.createFileSystemWatcher(fileWatcherPattern)
+			fileEvents: [
+				workspace.createFileSystemWatcher(fileWatcherPattern),
+				// The project manifest, which lists the link targets
+				workspace.createFileSystemWatcher('**/ca65-project.json'),
+				// The files the commands of the build are read from, without a manifest
+				workspace.createFileSystemWatcher('**/{ca65_commands.json,GNUmakefile,makefile,Makefile}'),
+				// The debug info and maps that ld65 writes, which give the addresses of labels
+				workspace.createFileSystemWatcher('**/*.{dbg,map}'),
+				// Prebuilt object files and libraries, whose exports are indexed
+				workspace.createFileSystemWatcher('**/*.{o,obj,lib}'),
+			]
+		},
+		// Where the server caches the index of the workspace between sessions
+		initializationOptions: {
+			storagePath: context.storageUri?.fsPath,
+			extensionVersion: context.extension.packageJSON.version,
 		},
 	};
 
@@ -62,12 +97,43 @@ export function activate(context: ExtensionContext) {
 	client.start();
 	console.log('ca65 Language Client started.');
 
+	// --- Dim regions excluded by conditional assembly ---
+	client.onNotification('ca65/inactiveRegions', async (params: { uri: string, regions: LspRange[] }) => {
+		inactiveRegionsByUri.set(params.uri, await client.protocol2CodeConverter.asRanges(params.regions));
+		for (const editor of window.visibleTextEditors) {
+			if (editor.document.uri.toString() === params.uri) {
+				applyInactiveRegions(editor);
+			}
+		}
+	});
+	context.subscriptions.push(inactiveRegionDecoration);
+	context.subscriptions.push(window.onDidChangeVisibleTextEditors(editors => {
+		editors.forEach(applyInactiveRegions);
+	}));
+	context.subscriptions.push(workspace.onDidCloseTextDocument(document => {
+		inactiveRegionsByUri.delete(document.uri.toString());
+	}));
+
+	// --- Show the bundled .macpack sources as read-only documents ---
+	context.subscriptions.push(workspace.registerTextDocumentContentProvider('ca65-macpack', {
+		provideTextDocumentContent: async (uri: Uri) => {
+			return await client.sendRequest<string | undefined>('ca65/macpackSource', { uri: uri.toString() }) ?? '';
+		}
+	}));
+	context.subscriptions.push(workspace.onDidOpenTextDocument(document => {
+		if (document.uri.scheme === 'ca65-macpack' && document.languageId !== 'ca65') {
+			languages.setTextDocumentLanguage(document, 'ca65');
+		}
+	}));
+
 	// --- Register the "Show Reference" Command ---
 	const disposable = commands.registerCommand('ca65.showReference', (mnemonicId?: string) => {
 		showReferencePanel(context, mnemonicId);
 	});
 	context.subscriptions.push(disposable);
 
+	context.subscriptions.push(commands.registerCommand('ca65.lookupAddress', lookupAddress));
+
 	context.subscriptions.push(commands.registerCommand('ca65.dumpPerformanceStats', () => {
 		if (client) {
 			client.sendRequest('ca65/dumpPerformanceStats');
@@ -93,6 +159,56 @@ export function activate(context: ExtensionContext) {
 	}));
 }
 
+/**
+ * Asks for an address, e.g. from an emulator trace, and goes to the line that assembled to it, as
+ * the debug info or map of the link of the active file tells, or those of every link if no ca65
+ * file is active. When the address is in several segments, e.g. of different banks, they are
+ * listed to pick from.
+ */
+async function lookupAddress() {
+	const address = await window.showInputBox({
+		prompt: 'Address to look up in the debug info or map of the link',
+		placeHolder: '$C123',
+	});
+	if (!address || !client) return;
+
+	const document = window.activeTextEditor?.document;
+	const uri = document?.languageId === 'ca65' ? document.uri.toString() : undefined;
+	const results = await client.sendRequest<AddressLocation[] | undefined>('ca65/lookupAddress', { address, uri });
+	if (!results) {
+		window.showErrorMessage(`${address} isn't an address.`);
+		return;
+	}
+	if (results.length === 0) {
+		window.showInformationMessage(`No segment of the debug info or map contains ${address}.`);
+		return;
+	}
+
+	const items = results.map(result => ({
+		label: result.label ?? result.segment,
+		description: result.location
+			? `${workspace.asRelativePath(Uri.parse(result.location.uri))}:${result.location.range.start.line + 1}`
+			: undefined,
+		detail: `${result.segment} in ${workspace.asRelativePath(Uri.parse(result.source))}`,
+		result,
+	}));
+	const picked = items.length === 1 ? items[0] : await window.showQuickPick(items, { placeHolder: address });
+	const location = picked?.result.location;
+	if (!location) {
+		if (picked) window.showInformationMessage(`${address} is at ${picked.label} (${picked.detail}). No line is known for it.`);
+		return;
+	}
+	const editor = await window.showTextDocument(Uri.parse(location.uri));
+	const range = await client.protocol2CodeConverter.asRange(location.range);
+	editor.selection = new Selection(range.start, range.start);
+	editor.revealRange(range, TextEditorRevealType.InCenterIfOutsideViewport);
+}
+
+function applyInactiveRegions(editor: TextEditor) {
+	const regions = inactiveRegionsByUri.get(editor.document.uri.toString());
+	editor.setDecorations(inactiveRegionDecoration, regions || []);
+}
+
 export function deactivate(): Thenable<void> | undefined {
 	if (!client) {
 		return undefined;
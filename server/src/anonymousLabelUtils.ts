@@ -1,6 +1,6 @@
 import { Location, Position, Range } from 'vscode-languageserver-types';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { symbolTables } from './server';
+import { symbolTables } from './workspace';
 
 /**
  * Finds the definition location for an anonymous label reference.
@@ -9,7 +9,7 @@ import {
     CallHierarchyOutgoingCall,
 } from 'vscode-languageserver/node';
 import { Range, TextDocument } from 'vscode-languageserver-textdocument';
-import { getDocumentSettings, includesGraph, initializationGate, symbolTables } from './server';
+import { getDocumentSettings, includesGraph, initializationGate, symbolTables } from './workspace';
 import { getAllReferencesForEntity, resolveReferenceAtPosition, getLSPSymbolKind, resolveReference } from './symbolResolver';
 import { Scope, ScopeKind, Symbol, SymbolTableEntity } from './symbolTable';
 
@@ -0,0 +1,490 @@
+/**
+ * This module reads how the files of a workspace folder are actually assembled and linked, from
+ * the ca65, cl65 and ld65 command lines of its build. They are listed in `ca65_commands.json` at
+ * the root of the folder, in the format of `compile_commands.json`, or taken from what a dry run
+ * of make (`make -n`) prints.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { Logger } from 'vscode-languageserver/node';
+import { parseExpression } from './expressionParser';
+import { tokenizeLine } from './lexer';
+
+const execFileAsync = promisify(execFile);
+
+export const COMPILE_COMMANDS_NAME = 'ca65_commands.json';
+export const MAKEFILE_NAMES = ['GNUmakefile', 'makefile', 'Makefile'];
+
+// How long a dry run of make may take, in milliseconds
+const MAKE_DRY_RUN_TIMEOUT = 30000;
+
+// The options of each tool that take a value, which may also follow the option as the next
+// argument. Options that aren't listed take none.
+const CA65_VALUE_OPTIONS = new Set([
+    '-D', '-I', '-l', '-o', '-t', '-W', '--bin-include-dir', '--cpu', '--create-dep',
+    '--create-full-dep', '--feature', '--include-dir', '--list-bytes', '--listing',
+    '--memory-model', '--pagelength', '--target',
+]);
+const CL65_VALUE_OPTIONS = new Set([
+    '-C', '-D', '-I', '-L', '-Ln', '-l', '-m', '-o', '-t', '-u', '-W', '-Wa', '-Wc', '-Wl',
+    '--asm-args', '--asm-define', '--asm-include-dir', '--bin-include-dir', '--bss-label',
+    '--bss-name', '--cc-args', '--cfg-path', '--code-label', '--code-name', '--codesize',
+    '--config', '--cpu', '--create-dep', '--create-full-dep', '--data-label', '--data-name',
+    '--dep-target', '--include-dir', '--ld-args', '--lib', '--lib-path', '--list-bytes',
+    '--listing', '--mapfile', '--memory-model', '--module-id', '--o65-model', '--obj',
+    '--obj-path', '--register-space', '--rodata-name', '--standard', '--start-addr', '--target',
+    '--zp-label',
+]);
+const LD65_VALUE_OPTIONS = new Set([
+    '-C', '-D', '-L', '-Ln', '-m', '-o', '-S', '-t', '-u', '--cfg-path', '--config', '--dbgfile',
+    '--define', '--force-import', '--lib', '--lib-path', '--mapfile', '--module-id', '--obj',
+    '--obj-path', '--start-addr', '--target',
+]);
+
+// The extensions cl65 assembles and links, see FindFileType in cl65
+const CL65_SOURCE_EXTENSIONS = ['.s', '.asm', '.a65', '.mac'];
+const OBJECT_EXTENSIONS = ['.o', '.obj'];
+
+/**
+ * The flags a source file is assembled with.
+ */
+export interface AssemblerFlags {
+    // Absolute paths
+    includeDirs: string[];
+    binIncludeDirs: string[];
+    defines: Record<string, number>;
+    cpu?: string;
+    features: string[];
+}
+
+/**
+ * The files a link reads and writes besides the objects and the output, as absolute paths.
+ */
+interface LinkFiles {
+    // The linker config given with -C
+    configPath?: string;
+    // The map file written with -m
+    mapPath?: string;
+    // The debug info written with --dbgfile
+    debugInfoPath?: string;
+}
+
+/**
+ * An ld65 or cl65 command that links the objects of some of the sources.
+ */
+export interface LinkCommand extends LinkFiles {
+    // The file it writes, which names the target
+    output: string;
+    // Absolute paths of the sources of the objects, in link order
+    sourcePaths: string[];
+}
+
+export interface CompileCommands {
+    // The file the commands were read from: the commands file or the makefile
+    originPath: string;
+    // The flags of each source file, by absolute path
+    sources: Map<string, AssemblerFlags>;
+    links: LinkCommand[];
+}
+
+/**
+ * An entry of `ca65_commands.json`, as in `compile_commands.json`.
+ */
+interface CommandEntry {
+    // The directory the command runs in, absolute or relative to the workspace folder
+    directory?: string;
+    // The source file, for commands that assemble one
+    file?: string;
+    arguments?: string[];
+    command?: string;
+}
+
+/**
+ * Parses the value of a define the way ca65 parses `-D name=value`: a number literal.
+ */
+export function parseDefineValue(value: number | string): number | undefined {
+    if (typeof value === 'number') return Number.isInteger(value) ? value : undefined;
+    const node = parseExpression(tokenizeLine(value.trim()));
+    return node?.kind === 'number' ? node.value : undefined;
+}
+
+/**
+ * Splits a line of shell script into the arguments of each command, at `;`, `&&`, `||` and `|`.
+ * Quotes and backslashes are removed like the shell does. Redirections are left out.
+ */
+export function splitCommandLine(line: string): string[][] {
+    const commands: string[][] = [];
+    let args: string[] = [];
+    let arg: string | undefined;
+
+    const endArg = () => {
+        if (arg !== undefined) args.push(arg);
+        arg = undefined;
+    }
+    const endCommand = () => {
+        endArg();
+        if (args.length > 0) commands.push(args);
+        args = [];
+    }
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '\\' && i + 1 < line.length) {
+            arg = (arg ?? '') + line[++i];
+        } else if (char === "'") {
+            const end = line.indexOf("'", i + 1);
+            const close = end >= 0 ? end : line.length;
+            arg = (arg ?? '') + line.slice(i + 1, close);
+            i = close;
+        } else if (char === '"') {
+            arg = arg ?? '';
+            for (i++; i < line.length && line[i] !== '"'; i++) {
+                if (line[i] === '\\' && '"\\$`'.includes(line[i + 1])) i++;
+                arg += line[i];
+            }
+        } else if (/\s/.test(char)) {
+            endArg();
+        } else if (char === ';' || char === '|' || char === '&') {
+            if (line[i + 1] === char) i++;
+            endCommand();
+        } else if ((char === '>' || char === '<') && (arg === undefined || /^\d$/.test(arg))) {
+            // A redirection and its file, e.g. `2> /dev/null`
+            arg = undefined;
+            while (line[i + 1] === '>' || line[i + 1] === '&') i++;
+            while (/\s/.test(line[i + 1] ?? '')) i++;
+            while (i + 1 < line.length && !/[\s;|&]/.test(line[i + 1])) i++;
+        } else {
+            arg = (arg ?? '') + char;
+        }
+    }
+    endCommand();
+    return commands;
+}
+
+/**
+ * Reads the options and operands of a command line. An option that takes a value may have it
+ * after `=` for long options, attached for short ones, or as the next argument.
+ */
+function readOptions(args: string[], valueOptions: Set<string>): { options: [string, string][], operands: string[] } {
+    const options: [string, string][] = [];
+    const operands: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (!arg.startsWith('-') || arg === '-') {
+            operands.push(arg);
+        } else if (valueOptions.has(arg)) {
+            if (i + 1 < args.length) options.push([arg, args[++i]]);
+        } else if (arg.startsWith('--') && arg.includes('=')) {
+            const separator = arg.indexOf('=');
+            options.push([arg.slice(0, separator), arg.slice(separator + 1)]);
+        } else if (!arg.startsWith('--') && valueOptions.has(arg.slice(0, 2))) {
+            options.push([arg.slice(0, 2), arg.slice(2)]);
+        } else {
+            options.push([arg, '']);
+        }
+    }
+    return { options, operands };
+}
+
+/**
+ * Returns the file name of a path with another extension, like the cc65 tools name their outputs.
+ */
+function replaceExtension(filePath: string, extension: string): string {
+    const parsed = path.parse(filePath);
+    return path.join(parsed.dir, parsed.name + extension);
+}
+
+/**
+ * Collects the sources, objects and links of the commands of a build.
+ */
+class CommandCollector {
+    readonly sources: Map<string, AssemblerFlags> = new Map();
+    // The source of each object file
+    private objectSources: Map<string, string> = new Map();
+    // The objects of each link, which may be assembled by later commands
+    private links: (LinkFiles & { output: string, objectPaths: string[] })[] = [];
+
+    /**
+     * Reads a command, if it runs ca65, cl65 or ld65.
+     * @param directory The absolute path of the directory it runs in.
+     * @param file The source file of the command, if known.
+     */
+    addCommand(args: string[], directory: string, file?: string): void {
+        // Skip environment assignments and `env` in front of the program.
+        let programIndex = 0;
+        while (programIndex < args.length && (/^\w+=/.test(args[programIndex]) || args[programIndex] === 'env')) {
+            programIndex++;
+        }
+        if (programIndex >= args.length) return;
+        const program = path.basename(args[programIndex]).toLowerCase().replace(/\.exe$/, '');
+        const programArgs = args.slice(programIndex + 1);
+        const resolve = (filePath: string) => path.resolve(directory, filePath);
+
+        switch (program) {
+            case 'ca65': {
+                const { options, operands } = readOptions(programArgs, CA65_VALUE_OPTIONS);
+                const flags = this.createFlags();
+                this.applyAssemblerOptions(flags, options, directory);
+                const sourcePath = file ? resolve(file) : operands[0] && resolve(operands[0]);
+                if (!sourcePath) return;
+                const output = options.find(([name]) => name === '-o')?.[1];
+                this.addSource(sourcePath, flags, output ? resolve(output) : replaceExtension(sourcePath, '.o'));
+                return;
+            }
+            case 'cl65': {
+                const { options, operands } = readOptions(programArgs, CL65_VALUE_OPTIONS);
+                const flags = this.createFlags();
+                const assemblerOptions: [string, string][] = [];
+                const linkerOptions: [string, string][] = [];
+                for (const [name, value] of options) {
+                    switch (name) {
+                        case '--asm-include-dir':
+                            assemblerOptions.push(['-I', value]);
+                            break;
+                        case '--asm-define':
+                            assemblerOptions.push(['-D', value]);
+                            break;
+                        case '--bin-include-dir':
+                        case '--cpu':
+                            assemblerOptions.push([name, value]);
+                            break;
+                        case '-Wa':
+                        case '--asm-args':
+                            // Options passed on to ca65, separated by commas
+                            assemblerOptions.push(...readOptions(value.split(','), CA65_VALUE_OPTIONS).options);
+                            break;
+                        case '-Wl':
+                        case '--ld-args':
+                            linkerOptions.push(...readOptions(value.split(','), LD65_VALUE_OPTIONS).options);
+                            break;
+                    }
+                }
+                this.applyAssemblerOptions(flags, assemblerOptions, directory);
+
+                const output = options.find(([name]) => name === '-o')?.[1];
+                const sourcePaths = operands
+                    .filter(operand => CL65_SOURCE_EXTENSIONS.includes(path.extname(operand).toLowerCase()))
+                    .map(resolve);
+                const compileOnly = options.some(([name]) => name === '-c');
+                for (const sourcePath of sourcePaths) {
+                    const objectPath = compileOnly && output && sourcePaths.length === 1
+                        ? resolve(output)
+                        : replaceExtension(sourcePath, '.o');
+                    this.addSource(sourcePath, flags, objectPath);
+                }
+                if (compileOnly || options.some(([name]) => name === '-S')) return;
+
+                // Without -c, cl65 links what it assembled with the objects it is given.
+                const objectPaths = operands.filter(
+                    operand => !CL65_SOURCE_EXTENSIONS.includes(path.extname(operand).toLowerCase())
+                ).map(resolve);
+                const firstFile = operands[0] && path.parse(operands[0]).name;
+                this.links.push({
+                    output: output ?? firstFile ?? 'a.out',
+                    ...this.getLinkFiles([...options, ...linkerOptions], directory),
+                    objectPaths: [...sourcePaths.map(sourcePath => replaceExtension(sourcePath, '.o')), ...objectPaths],
+                });
+                return;
+            }
+            case 'ld65': {
+                const { options, operands } = readOptions(programArgs, LD65_VALUE_OPTIONS);
+                const objectPaths = [
+                    ...operands,
+                    ...options.filter(([name]) => name === '--obj').map(([, value]) => value),
+                ].map(resolve);
+                this.links.push({
+                    output: options.find(([name]) => name === '-o')?.[1] ?? 'a.out',
+                    ...this.getLinkFiles(options, directory),
+                    objectPaths,
+                });
+                return;
+            }
+        }
+    }
+
+    /**
+     * Returns the links, with the sources of the objects they link that were assembled by one of
+     * the commands.
+     */
+    getLinks(): LinkCommand[] {
+        return this.links.map(link => ({
+            output: link.output,
+            configPath: link.configPath,
+            mapPath: link.mapPath,
+            debugInfoPath: link.debugInfoPath,
+            sourcePaths: link.objectPaths
+                .filter(objectPath => OBJECT_EXTENSIONS.includes(path.extname(objectPath).toLowerCase()))
+                .map(objectPath => this.objectSources.get(objectPath))
+                .filter((sourcePath): sourcePath is string => sourcePath !== undefined),
+        })).filter(link => link.sourcePaths.length > 0);
+    }
+
+    private getLinkFiles(options: [string, string][], directory: string): LinkFiles {
+        const getPath = (...names: string[]) => {
+            const value = options.find(([name]) => names.includes(name))?.[1];
+            return value ? path.resolve(directory, value) : undefined;
+        };
+        return {
+            configPath: getPath('-C', '--config'),
+            mapPath: getPath('-m', '--mapfile'),
+            debugInfoPath: getPath('--dbgfile'),
+        };
+    }
+
+    private createFlags(): AssemblerFlags {
+        return { includeDirs: [], binIncludeDirs: [], defines: {}, features: [] };
+    }
+
+    private addSource(sourcePath: string, flags: AssemblerFlags, objectPath: string): void {
+        // A source that is assembled more than once keeps the flags of its first command.
+        if (!this.sources.has(sourcePath)) this.sources.set(sourcePath, flags);
+        this.objectSources.set(objectPath, sourcePath);
+    }
+
+    private applyAssemblerOptions(flags: AssemblerFlags, options: [string, string][], directory: string): void {
+        for (const [name, value] of options) {
+            switch (name) {
+                case '-I':
+                case '--include-dir':
+                    flags.includeDirs.push(path.resolve(directory, value));
+                    break;
+                case '--bin-include-dir':
+                    flags.binIncludeDirs.push(path.resolve(directory, value));
+                    break;
+                case '-D': {
+                    // ca65 defines a symbol without a value as 0.
+                    const [symbol, definedValue] = value.split('=', 2);
+                    const parsedValue = definedValue === undefined ? 0 : parseDefineValue(definedValue);
+                    if (symbol && parsedValue !== undefined) flags.defines[symbol] = parsedValue;
+                    break;
+                }
+                case '--cpu':
+                    flags.cpu = value;
+                    break;
+                case '--feature':
+                    flags.features.push(value);
+                    break;
+            }
+        }
+    }
+}
+
+/**
+ * Reads the commands of `ca65_commands.json` in a workspace folder.
+ * @returns The commands, or undefined if there is no valid commands file.
+ */
+async function readCommandsFile(folderPath: string, logger: Logger): Promise<CompileCommands | undefined> {
+    const commandsPath = path.join(folderPath, COMPILE_COMMANDS_NAME);
+    let text: string;
+    try {
+        text = await fs.readFile(commandsPath, 'utf-8');
+    } catch (e) {
+        // There is no commands file.
+        return undefined;
+    }
+
+    let entries: CommandEntry[];
+    try {
+        entries = JSON.parse(text);
+    } catch (e) {
+        logger.error(`Failed to read ${commandsPath}: ${e}`);
+        return undefined;
+    }
+    if (!Array.isArray(entries)) {
+        logger.error(`${commandsPath} isn't a list of commands.`);
+        return undefined;
+    }
+
+    const collector = new CommandCollector();
+    for (const [index, entry] of entries.entries()) {
+        const args = Array.isArray(entry?.arguments)
+            ? entry.arguments
+            : typeof entry?.command === 'string' ? splitCommandLine(entry.command)[0] : undefined;
+        if (!args) {
+            logger.error(`Command ${index + 1} in ${commandsPath} needs "arguments" or a "command".`);
+            continue;
+        }
+        collector.addCommand(args, path.resolve(folderPath, entry.directory ?? '.'), entry.file);
+    }
+    return { originPath: commandsPath, sources: collector.sources, links: collector.getLinks() };
+}
+
+/**
+ * Reads the commands that `make -n` prints in a workspace folder. make is run with `-B` so that it
+ * prints the commands of targets that are up to date too, and with `-w` so that the directories of
+ * recursive makes are known.
+ * @returns The commands, or undefined if the folder has no makefile.
+ */
+async function readMakeDryRun(folderPath: string, logger: Logger): Promise<CompileCommands | undefined> {
+    let makefilePath: string | undefined;
+    for (const name of MAKEFILE_NAMES) {
+        try {
+            await fs.access(path.join(folderPath, name));
+            makefilePath = path.join(folderPath, name);
+            break;
+        } catch (e) {}
+    }
+    if (!makefilePath) return undefined;
+
+    let stdout = '';
+    try {
+        const result = await execFileAsync('make', ['-n', '-B', '-w'], {
+            cwd: folderPath,
+            timeout: MAKE_DRY_RUN_TIMEOUT,
+            maxBuffer: 64 * 1024 * 1024,
+        });
+        stdout = result.stdout;
+    } catch (err: unknown) {
+        // make may print most of the commands before it fails.
+        logger.error(`make -n failed in ${folderPath}: ${err instanceof Error ? err.message : err}`);
+        if (err instanceof Error && 'stdout' in err && typeof err.stdout === 'string') stdout = err.stdout;
+    }
+
+    const collector = new CommandCollector();
+    const directories = [folderPath];
+    for (const line of stdout.replace(/\\\r?\n/g, ' ').split(/\r?\n/)) {
+        const directoryMatch = /^\S*make(?:\[\d+\])?: (Entering|Leaving) directory ['`"](.*)['"]$/.exec(line);
+        if (directoryMatch) {
+            if (directoryMatch[1] === 'Entering') {
+                directories.push(directoryMatch[2]);
+            } else if (directories.length > 1) {
+                directories.pop();
+            }
+            continue;
+        }
+
+        // A line runs in a shell of its own, in which `cd` changes the directory of the
+        // commands that follow.
+        let directory = directories[directories.length - 1];
+        for (const args of splitCommandLine(line)) {
+            if (args[0] === 'cd' && args[1]) {
+                directory = path.resolve(directory, args[1]);
+            } else {
+                collector.addCommand(args, directory);
+            }
+        }
+    }
+    return { originPath: makefilePath, sources: collector.sources, links: collector.getLinks() };
+}
+
+/**
+ * Reads the commands of the build of a workspace folder: from `ca65_commands.json`, or else from a
+ * dry run of make if that is enabled.
+ * @returns The commands, or undefined if there are none.
+ */
+export async function loadCompileCommands(folderPath: string, makeDryRun: boolean, logger: Logger): Promise<CompileCommands | undefined> {
+    const commands = await readCommandsFile(folderPath, logger);
+    if (commands || !makeDryRun) return commands;
+    return readMakeDryRun(folderPath, logger);
+}
+
+/**
+ * Tells whether a file is one that the commands of the build of a workspace folder are read from.
+ */
+export function isCompileCommandsFile(filePath: string, folderPath: string): boolean {
+    return path.dirname(filePath) === folderPath
+        && [COMPILE_COMMANDS_NAME, ...MAKEFILE_NAMES].includes(path.basename(filePath));
+}
@@ -3,21 +3,31 @@ import {
     TextDocuments,
     CompletionItem,
     CompletionItemKind,
-    TextDocumentPositionParams,
+    CompletionParams,
+    MarkupKind,
     Range,
     TextEdit,
     SymbolKind as LSPSymbolKind,
     Position,
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { getDocumentSettings, includesGraph, initializationGate, performanceMonitor, symbolTables } from './server';
-import { directiveData, mnemonicData } from './dataManager';
-import { Export, Import, ImportKind, Macro, MacroKind, Scope, ScopeKind, Symbol, SymbolTable, SymbolTableEntity } from './symbolTable';
-import { findPreviousCheapLocalBoundary, CHEAP_LOCAL_BOUNDARY_REGEX } from './cheapLocalLabelUtils';
+import {
+    getDocumentSettings,
+    includesGraph,
+    initializationGate,
+    performanceMonitor,
+    projectTargets,
+    symbolTables,
+} from './workspace';
+import { directiveData, getMnemonicData, normalizeCpu } from './dataManager';
+import { Export, Import, ImportKind, Macro, MacroKind, Scope, ScopeKind, Symbol, SymbolKind, SymbolTable, SymbolTableEntity } from './symbolTable';
 import { IncludesGraph } from './includesGraph';
 import { getLSPSymbolKind, resolveExport, resolveImport } from './symbolResolver';
 import { findCanonicalIncludePath, getRelativePath, getWorkspaceRelativePath } from './pathUtils';
 import { Ca65Settings } from './settings';
+import { getInitialFeatures } from './features';
+import { TokenKind, maskCComments, tokenizeLine } from './lexer';
+import { getLinkerConfig, getSegmentMarkdown } from './linkerConfig';
 
 const CHEAP_LOCAL_ITEM_PREFIX = 0;
 const VISIBLE_ITEM_PREFIX = 1;
@@ -105,41 +115,28 @@ function isAutoIncludable(uri: string, settings: Ca65Settings) {
 }
 
 function getCheapLocalLabelCompletions(
-    document: TextDocument,
+    symbolTable: SymbolTable | undefined,
     position: Position,
     replacementRange: Range,
     currentWord: string
 ): CompletionItem[] {
-    const items: CompletionItem[] = [];
-    const cheapLocalDefRegex = /^\s*(@[a-zA-Z0-9_@]+):/;
-
-    const startLine = findPreviousCheapLocalBoundary(document, position.line);
-    let endLine = document.lineCount - 1;
-    for (let i = startLine + 1; i < document.lineCount; i++) {
-        const line = document.getText(Range.create(i, 0, i + 1, 0));
-        if (CHEAP_LOCAL_BOUNDARY_REGEX.test(line)) {
-            endLine = i - 1;
-            break;
-        }
-    }
+    const region = symbolTable?.getCheapLocalRegionAtPosition(position);
+    if (!region) return [];
 
-    for (let i = startLine + 1; i <= endLine; i++) {
-        const lineText = document.getText(Range.create(i, 0, i + 1, 0));
-        const match = lineText.match(cheapLocalDefRegex);
-        if (match) {
-            const labelName = match[1];
-            const item: CompletionItem = {
-                label: labelName,
-                kind: CompletionItemKind.Reference,
-                detail: 'cheap_local_label',
-                textEdit: TextEdit.replace(replacementRange, labelName),
-                sortText: CHEAP_LOCAL_ITEM_PREFIX + labelName.slice(1)
-            };
-            if (!currentWord.startsWith('@')) {
-                item.filterText = labelName.substring(1);
-            }
-            items.push(item);
+    const items: CompletionItem[] = [];
+    // `.set` may define a name several times.
+    for (const labelName of new Set(Array.from(region.scope.getSymbols(), symbol => symbol.name))) {
+        const item: CompletionItem = {
+            label: labelName,
+            kind: CompletionItemKind.Reference,
+            detail: 'cheap_local_label',
+            textEdit: TextEdit.replace(replacementRange, labelName),
+            sortText: CHEAP_LOCAL_ITEM_PREFIX + labelName.slice(1)
+        };
+        if (!currentWord.startsWith('@')) {
+            item.filterText = labelName.substring(1);
         }
+        items.push(item);
     }
     return items;
 }
@@ -168,7 +165,7 @@ function resolveDirectiveAlias(key: string, data: typeof directiveData): { type:
 }
 
 export function initializeCompletionProvider(connection: _Connection, documents: TextDocuments<TextDocument>) {
-    connection.onCompletion(async (params: TextDocumentPositionParams): Promise<CompletionItem[]> => {
+    connection.onCompletion(async (params: CompletionParams): Promise<CompletionItem[]> => {
         await initializationGate.isInitialized;
 
         performanceMonitor.start("onCompletion");
@@ -192,9 +189,37 @@ export function initializeCompletionProvider(connection: _Connection, documents:
             return [];
         }
 
+        const symbolTable = symbolTables.get(document.uri);
+        const features = symbolTable?.getFeaturesAtLine(position.line) ?? getInitialFeatures(settings);
+        const inCComment = symbolTable?.cCommentLines.has(position.line) ?? false;
+        const masked = features.cComments || inCComment
+            ? maskCComments(lineToCursor, inCComment)
+            : { text: lineToCursor, inComment: false };
+        const tokensToCursor = tokenizeLine(masked.text, features);
+        if (masked.inComment || tokensToCursor[tokensToCursor.length - 1]?.kind === TokenKind.Comment) {
+            // No completions inside comments.
+            performanceMonitor.stop("onCompletion");
+            return [];
+        }
+
+        // Segment names in `.segment "`
+        const segmentMatch = /^(?:\s*[^\s:;]+:)?\s*\.segment\s+"([^"]*)$/i.exec(masked.text);
+        if (segmentMatch) {
+            const segmentItems = await getSegmentCompletions(document.uri, settings, position, segmentMatch[1]);
+            performanceMonitor.stop("onCompletion");
+            return segmentItems;
+        }
+        if (params.context?.triggerCharacter === '"') {
+            // Quotes only trigger segment completions.
+            performanceMonitor.stop("onCompletion");
+            return [];
+        }
+
         const fullLineUntrimmed = document.getText(Range.create(params.position.line, 0, params.position.line + 1, 0));
-        
-        const wordMatch = lineToCursor.match(/[a-zA-Z0-9_.:@]*$/);
+
+        // Identifiers may also contain these with the at_in_identifiers and dollar_in_identifiers features.
+        const extraWordChars = (features.atInIdentifiers ? '@' : '') + (features.dollarInIdentifiers ? '$' : '');
+        const wordMatch = lineToCursor.match(new RegExp(`[a-zA-Z0-9_.:@${extraWordChars}]*$`));
         const currentWord = wordMatch ? wordMatch[0] : '';
         const replacementRange = Range.create(
             params.position.line,
@@ -205,7 +230,9 @@ export function initializeCompletionProvider(connection: _Connection, documents:
 
         // --- CONTEXT DETERMINATION ---
         const trimmedLine = fullLineUntrimmed.trim();
-        const commandRegex = /^\s*(?:[a-zA-Z_@.][a-zA-Z0-9_@.]*:\s*)?([a-zA-Z_.]+)/;
+        const commandRegex = new RegExp(
+            `^\\s*(?:[a-zA-Z_@.${extraWordChars}][a-zA-Z0-9_@.${extraWordChars}]*:\\s*)?([a-zA-Z_.${extraWordChars}]+)`
+        );
         const lineMatch = trimmedLine.match(commandRegex);
         const commandOnLine = lineMatch ? lineMatch[1] : null;
 
@@ -228,8 +255,9 @@ export function initializeCompletionProvider(connection: _Connection, documents:
             // --- COMMAND CONTEXT: Suggest mnemonics, control commands, and macros ---
             const completionItems: CompletionItem[] = [];
 
-            // 1. Add Mnemonics
-            for (const key in mnemonicData) {
+            // 1. Add Mnemonics of the CPU in effect
+            const cpu = symbolTable?.getCpuAtLine(position.line) ?? normalizeCpu(settings.cpu);
+            for (const key in getMnemonicData(cpu)) {
                 const lowerCaseKey = key.toLowerCase();
                 completionItems.push({
                     label: lowerCaseKey,
@@ -272,7 +300,9 @@ export function initializeCompletionProvider(connection: _Connection, documents:
 
             // 2. Add Cheap Local Labels
             completionItems.push(
-                ...getCheapLocalLabelCompletions(document, params.position, replacementRange, currentWord)
+                ...getCheapLocalLabelCompletions(
+                    symbolTables.get(document.uri), params.position, replacementRange, currentWord
+                )
             );
 
             // 3. Add Pseudo-functions and Pseudo-variables
@@ -318,6 +348,41 @@ export function initializeCompletionProvider(connection: _Connection, documents:
     );
 }
 
+/**
+ * Suggests the segments of the linker config of a file, or those that the workspace switches to
+ * if there is no config.
+ * @param typed The part of the name before the cursor.
+ */
+async function getSegmentCompletions(
+    uri: string,
+    settings: Ca65Settings,
+    position: Position,
+    typed: string,
+): Promise<CompletionItem[]> {
+    const range = Range.create(position.line, position.character - typed.length, position.line, position.character);
+    const config = await getLinkerConfig(uri, settings);
+    if (config) {
+        return [...config.segments.values()].map(segment => ({
+            label: segment.name,
+            kind: CompletionItemKind.Module,
+            detail: 'Segment',
+            documentation: { kind: MarkupKind.Markdown, value: getSegmentMarkdown(config, segment) },
+            textEdit: TextEdit.replace(range, segment.name),
+        }));
+    }
+
+    const names: Set<string> = new Set();
+    for (const symbolTable of symbolTables.values()) {
+        for (const reference of symbolTable.segmentReferences) names.add(reference.name);
+    }
+    return [...names].map(name => ({
+        label: name,
+        kind: CompletionItemKind.Module,
+        detail: 'Segment',
+        textEdit: TextEdit.replace(range, name),
+    }));
+}
+
 async function getCompletionMacros(
     document: TextDocument,
     allSymbolTables: Map<string, SymbolTable>,
@@ -386,6 +451,17 @@ async function getCompletionMacros(
     return Array.from(completionItems.values());
 }
 
+/**
+ * Whether a symbol exists at a scope. The counters of `.repeat` blocks only exist inside of them.
+ */
+function isInScope(symbol: Symbol, scope: Scope): boolean {
+    if (symbol.kind !== SymbolKind.RepeatCounter) return true;
+    for (let current: Scope | null = scope; current; current = current.scope) {
+        if (current === symbol.scope) return true;
+    }
+    return false;
+}
+
 async function getCompletionSymbols(
     document: TextDocument,
     position: Position,
@@ -413,7 +489,7 @@ async function getCompletionSymbols(
         for (const entity of symbolTable.getAllDefinedEntities()) {
             if (
                 entity instanceof Macro && entity.kind === MacroKind.Define
-                || entity instanceof Symbol
+                || entity instanceof Symbol && isInScope(entity, currentScope)
                 || entity instanceof Scope && entity.kind === ScopeKind.Proc
             ) {
                 visibleFqns.add(entity.getFullyQualifiedName());
@@ -444,7 +520,7 @@ async function getCompletionSymbols(
             // it as an opaque import, which may be the case if it is a header for a library
             // file.
             const resolvedImport =
-                resolveImport(importEntity.name, allSymbolTables, includesGraph);
+                resolveImport(importEntity.name, document.uri, allSymbolTables, includesGraph);
             if (resolvedImport) {
                 // This may be a global that is acting as an export, which we should ignore.
                 let isExportingGlobal = false;
@@ -482,7 +558,7 @@ async function getCompletionSymbols(
             for (const entity of symbolTable.getAllDefinedEntities()) {
                 if (
                     entity instanceof Macro && entity.kind === MacroKind.Define
-                    || entity instanceof Symbol
+                    || entity instanceof Symbol && entity.kind !== SymbolKind.RepeatCounter
                     || entity instanceof Scope && entity.kind === ScopeKind.Proc
                 ) {
                     if (visibleFqns.has(entity.getFullyQualifiedName())) continue;
@@ -527,7 +603,7 @@ async function getCompletionSymbols(
                 // it as an opaque import, which may be the case if it is a header for a library
                 // file.
                 const resolvedExport =
-                    resolveImport(importEntity.name, allSymbolTables, includesGraph);
+                    resolveImport(importEntity.name, document.uri, allSymbolTables, includesGraph);
                 if (resolvedExport) {
                     kind = getCompletionItemKind(getLSPSymbolKind(resolvedExport));
                     detail = `${getCompletionItemDetail(resolvedExport)}`;
@@ -550,7 +626,8 @@ async function getCompletionSymbols(
             }
         }
 
-        // Suggest importing symbols that are defined and exported
+        // Suggest importing symbols that are defined and exported to this file
+        if (!projectTargets.isLinkedWith(document.uri, uri)) continue;
         for (const exportEntity of symbolTable.exports) {
             if (seenImports.has(exportEntity.name)) continue;
             seenImports.add(exportEntity.name);
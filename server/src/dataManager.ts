@@ -1,26 +1,100 @@
 import * as path from 'path';
 import * as fs from 'fs';
-import { _Connection } from 'vscode-languageserver/node';
+import { Logger } from 'vscode-languageserver/node';
 
-export let mnemonicData: any = {};
 export let directiveData: any = {};
 
-export function loadAllData(connection: _Connection) {
-    // Load 6502 mnemonics data
-    const mnemonicPath = path.join(__dirname, '..', 'data', '6502_mnemonics.json');
-    try {
-        mnemonicData = JSON.parse(fs.readFileSync(mnemonicPath, 'utf8'));
-        connection.console.log('Successfully loaded 6502 mnemonics data.');
-    } catch (error) {
-        connection.console.error(`Failed to load mnemonics data: ${error}`);
+// The mnemonic data files that make up the instruction set of each CPU. Later files add
+// instructions, or addressing modes of the instructions before them.
+const CPU_MNEMONIC_FILES: Record<string, string[]> = {
+    '6502': ['6502'],
+    '6502X': ['6502', '6502x'],
+    '65SC02': ['6502', '65sc02'],
+    '65C02': ['6502', '65sc02', '65c02'],
+    'W65C02': ['6502', '65sc02', '65c02', 'w65c02'],
+    '65816': ['6502', '65sc02', 'w65c02', '65816'],
+    'HUC6280': ['6502', '65sc02', '65c02', 'huc6280'],
+};
+
+export const DEFAULT_CPU = '6502';
+
+/** An addressing mode of an instruction, as given in the mnemonic data files. */
+export interface MnemonicMode {
+    opcode: string;
+    bytes: number;
+    cycles: number;
+    pagePenalty?: boolean;
+    branchPenalty?: boolean;
+}
+
+/** An instruction of the mnemonic data files, keyed by its upper case mnemonic there. */
+export interface MnemonicData {
+    fullName: string;
+    description: string;
+    note?: string;
+    warning?: string;
+    seeAlso?: string[];
+    /** The description of how the instruction changes each flag it affects, by flag. */
+    flagChanges?: Record<string, string>;
+    modes: Record<string, MnemonicMode>;
+}
+
+// A file that adds modes to an instruction of an earlier file may give only the modes.
+type MnemonicFile = Record<string, Partial<MnemonicData>>;
+
+const mnemonicFiles: Map<string, MnemonicFile> = new Map();
+const mnemonicDataByCpu: Map<string, Record<string, MnemonicData>> = new Map();
+
+export function loadAllData(console: Logger) {
+    // Load the mnemonics data of each instruction set
+    const fileNames = new Set(Object.values(CPU_MNEMONIC_FILES).flat());
+    for (const fileName of fileNames) {
+        const mnemonicPath = path.join(__dirname, '..', 'data', `${fileName}_mnemonics.json`);
+        try {
+            mnemonicFiles.set(fileName, JSON.parse(fs.readFileSync(mnemonicPath, 'utf8')));
+        } catch (error) {
+            console.error(`Failed to load ${fileName} mnemonics data: ${error}`);
+        }
     }
+    mnemonicDataByCpu.clear();
+    console.log('Successfully loaded mnemonics data.');
 
     // Load ca65 directives data
     const directivePath = path.join(__dirname, '..', 'data', 'ca65_directives.json');
     try {
         directiveData = JSON.parse(fs.readFileSync(directivePath, 'utf8'));
-        connection.console.log('Successfully loaded ca65 directives data.');
+        console.log('Successfully loaded ca65 directives data.');
     } catch (error) {
-        connection.console.error(`Failed to load ca65 directives data: ${error}`);
+        console.error(`Failed to load ca65 directives data: ${error}`);
+    }
+}
+
+/**
+ * Normalizes a CPU name as given to `.setcpu` or `--cpu`.
+ * @returns The CPU, or the default CPU if the name isn't one with known mnemonics.
+ */
+export function normalizeCpu(name: string | undefined): string {
+    const cpu = name?.replace(/"/g, '').trim().toUpperCase();
+    return cpu && CPU_MNEMONIC_FILES[cpu] ? cpu : DEFAULT_CPU;
+}
+
+/**
+ * Returns the mnemonics of a CPU's instruction set, keyed by the upper case mnemonic.
+ * @param cpu A CPU name returned by normalizeCpu.
+ */
+export function getMnemonicData(cpu: string): Record<string, MnemonicData> {
+    let data = mnemonicDataByCpu.get(cpu);
+    if (data) return data;
+
+    data = {};
+    for (const fileName of CPU_MNEMONIC_FILES[cpu] ?? CPU_MNEMONIC_FILES[DEFAULT_CPU]) {
+        for (const [mnemonic, entry] of Object.entries(mnemonicFiles.get(fileName) ?? {})) {
+            const base: MnemonicData | undefined = data[mnemonic];
+            data[mnemonic] = base
+                ? { ...base, ...entry, modes: { ...base.modes, ...entry.modes } }
+                : entry as MnemonicData;
+        }
     }
+    mnemonicDataByCpu.set(cpu, data);
+    return data;
 }
@@ -0,0 +1,445 @@
+/**
+ * This module reads what ld65 tells about a linked program: the debug info it writes with
+ * `--dbgfile`, or else the map it writes with `-m`. They give the addresses of labels, which hovers
+ * and inlay hints show, and what is at an address, which the `ca65/lookupAddress` request tells for
+ * reading emulator traces. The files of a source are those of the first link target it belongs to,
+ * or the `ca65.debugFile` and `ca65.mapFile` settings.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { _Connection, Location, Range } from 'vscode-languageserver/node';
+import { URI } from 'vscode-uri';
+import { resolveWorkspacePath } from './pathUtils';
+import { Ca65Settings } from './settings';
+import { Scope, ScopeKind, Symbol, SymbolKind, SymbolTableEntity } from './symbolTable';
+import { exportsMap, getDocumentSettings, projectTargets, workspaceFolderUris } from './workspace';
+
+const DEBUG_INFO_EXTENSIONS = ['.dbg', '.map'];
+
+const LABEL_KINDS = [SymbolKind.Label, SymbolKind.ResLabel, SymbolKind.DataLabel, SymbolKind.StringLabel];
+
+export interface DebugSegment {
+    name: string;
+    start: number;
+    size: number;
+}
+
+/**
+ * A label of the linked program.
+ */
+export interface DebugSymbol {
+    name: string;
+    // With the names of the scopes it is in, e.g. `Player::update`
+    qualifiedName: string;
+    address: number;
+    // The number of bytes, if known
+    size?: number;
+    // Undefined if it isn't known, which may be the case with a map
+    segment?: DebugSegment;
+    // Where it is defined, which only the debug info tells: the absolute path of the source and
+    // the zero-based line
+    filePath?: string;
+    line?: number;
+}
+
+/**
+ * The bytes a source line assembled to.
+ */
+interface DebugLine {
+    filePath: string;
+    // Zero-based
+    line: number;
+    address: number;
+    size: number;
+    segment: DebugSegment;
+    // Whether it is a line of the body of a macro, rather than the line that invoked it
+    inMacro: boolean;
+}
+
+export interface DebugInfo {
+    // The debug info or map file
+    uri: string;
+    segments: DebugSegment[];
+    symbols: DebugSymbol[];
+    // Empty for a map
+    lines: DebugLine[];
+    symbolsByName: Map<string, DebugSymbol[]>;
+}
+
+/**
+ * What is at an address in one of the segments that contain it.
+ */
+export interface AddressLocation {
+    // The label at or before the address, with the offset from it, e.g. `reset+3`
+    label?: string;
+    segment: string;
+    // The line that assembled to the address, or else the definition of the label
+    location?: Location;
+    // The debug info or map file it was found in
+    source: string;
+}
+
+// Parsed files by path, with the modification time of the file they were parsed from
+const debugInfoCache: Map<string, { mtimeMs: number, info: DebugInfo }> = new Map();
+
+export function initializeDebugInfo(connection: _Connection) {
+    connection.onRequest('ca65/lookupAddress', async ({ address, uri }: { address: string, uri?: string }) => {
+        const value = parseAddress(address);
+        if (value === undefined) return undefined;
+        const infos = uri
+            ? [await getDebugInfo(uri, await getDocumentSettings(uri))]
+            : await getAllDebugInfos();
+        return infos.flatMap(info => info ? lookupAddress(info, value) : []);
+    });
+}
+
+/**
+ * Tells whether a file may be debug info or a map, which aren't sources.
+ */
+export function isDebugInfoFile(uri: string): boolean {
+    return DEBUG_INFO_EXTENSIONS.includes(path.extname(URI.parse(uri).fsPath).toLowerCase());
+}
+
+/**
+ * Reads an address as emulators print them: in hex, with or without `$` or `0x`, and with or
+ * without a bank in front, e.g. `01:C123`, which is left out.
+ */
+function parseAddress(text: string): number | undefined {
+    const match = /^(?:\$?[0-9a-f]+:)?(?:\$|0x)?([0-9a-f]+)h?$/i.exec(text.trim());
+    return match ? parseInt(match[1], 16) : undefined;
+}
+
+/**
+ * Formats an address as ca65 writes it, e.g. `$C123`.
+ */
+export function formatAddress(address: number): string {
+    return '$' + address.toString(16).toUpperCase().padStart(address > 0xFFFF ? 6 : 4, '0');
+}
+
+/**
+ * Reads a number of a debug info record, which is decimal or `0x` hex.
+ */
+function toNumber(value: string | undefined): number {
+    return value === undefined || value === '' ? NaN : Number(value);
+}
+
+/**
+ * Splits an ld65 debug info file into its records, e.g.
+ * `sym id=0,name="reset",val=0x8000,seg=0,type=lab`, which are listed by type and placed by id.
+ */
+function readDebugRecords(text: string): Map<string, Map<string, string>[]> {
+    const records: Map<string, Map<string, string>[]> = new Map();
+    for (const line of text.split(/\r?\n/)) {
+        const match = /^(\w+)\s+(.*)$/.exec(line);
+        if (!match) continue;
+        const fields: Map<string, string> = new Map();
+        for (const [, key, value] of match[2].matchAll(/(\w+)=("[^"]*"|[^,]*)/g)) {
+            fields.set(key, value.startsWith('"') ? value.slice(1, -1) : value);
+        }
+
+        let list = records.get(match[1]);
+        if (!list) {
+            list = [];
+            records.set(match[1], list);
+        }
+        const id = toNumber(fields.get('id'));
+        if (Number.isInteger(id) && id >= 0) {
+            list[id] = fields;
+        } else {
+            list.push(fields);
+        }
+    }
+    return records;
+}
+
+/**
+ * Resolves the name of a source as ca65 was given it, which is relative to the directory it ran
+ * in, to the first of some directories it exists in.
+ */
+async function resolveSourcePath(name: string, baseDirs: string[]): Promise<string> {
+    if (path.isAbsolute(name)) return path.normalize(name);
+    for (const baseDir of baseDirs) {
+        const candidate = path.resolve(baseDir, name);
+        try {
+            await fs.access(candidate);
+            return candidate;
+        } catch (e) {}
+    }
+    return path.resolve(baseDirs[0], name);
+}
+
+function createDebugInfo(uri: string, segments: DebugSegment[], symbols: DebugSymbol[], lines: DebugLine[]): DebugInfo {
+    const symbolsByName: Map<string, DebugSymbol[]> = new Map();
+    for (const symbol of symbols) {
+        const list = symbolsByName.get(symbol.name);
+        if (list) {
+            list.push(symbol);
+        } else {
+            symbolsByName.set(symbol.name, [symbol]);
+        }
+    }
+    return { uri, segments, symbols, lines, symbolsByName };
+}
+
+/**
+ * Parses an ld65 debug info file. Sources are looked for relative to the given directories.
+ */
+async function parseDebugFile(uri: string, text: string, baseDirs: string[]): Promise<DebugInfo> {
+    const records = readDebugRecords(text);
+    const getRecords = (type: string) => records.get(type) ?? [];
+
+    const segments = getRecords('seg').map(record => record && {
+        name: record.get('name') ?? '',
+        start: toNumber(record.get('start')),
+        size: toNumber(record.get('size')),
+    });
+    const filePaths = await Promise.all(getRecords('file').map(
+        record => record && resolveSourcePath(record.get('name') ?? '', baseDirs)
+    ));
+    const spans = getRecords('span');
+    const lineRecords = getRecords('line');
+    const scopeRecords = getRecords('scope');
+
+    const lines: DebugLine[] = [];
+    for (const record of lineRecords) {
+        const filePath = record && filePaths[toNumber(record.get('file'))];
+        const line = toNumber(record?.get('line')) - 1;
+        if (!filePath || !(line >= 0)) continue;
+        for (const spanId of record.get('span')?.split('+') ?? []) {
+            const span = spans[toNumber(spanId)];
+            const segment = span && segments[toNumber(span.get('seg'))];
+            if (!segment) continue;
+            lines.push({
+                filePath,
+                line,
+                address: segment.start + toNumber(span.get('start')),
+                size: toNumber(span.get('size')),
+                segment,
+                inMacro: record.get('type') === '2',
+            });
+        }
+    }
+
+    const getScopeNames = (scopeId: number): string[] => {
+        const names: string[] = [];
+        // Scopes name their parent, up to the unnamed scope of the module.
+        for (let scope = scopeRecords[scopeId]; scope?.get('name'); scope = scopeRecords[toNumber(scope.get('parent'))]) {
+            names.unshift(scope.get('name')!);
+            if (names.length > scopeRecords.length) break;
+        }
+        return names;
+    };
+
+    const symbols: DebugSymbol[] = [];
+    for (const record of getRecords('sym')) {
+        if (record?.get('type') !== 'lab') continue;
+        const name = record.get('name') ?? '';
+        const address = toNumber(record.get('val'));
+        if (!name || isNaN(address)) continue;
+        const definition = lineRecords[toNumber(record.get('def')?.split('+')[0])];
+        const size = toNumber(record.get('size'));
+        symbols.push({
+            name,
+            qualifiedName: [...getScopeNames(toNumber(record.get('scope'))), name].join('::'),
+            address,
+            size: isNaN(size) ? undefined : size,
+            segment: segments[toNumber(record.get('seg'))],
+            filePath: definition && filePaths[toNumber(definition.get('file'))],
+            line: definition && toNumber(definition.get('line')) - 1,
+        });
+    }
+    return createDebugInfo(uri, segments.filter(segment => segment), symbols, lines);
+}
+
+/**
+ * Parses an ld65 map file: its segment list, and the labels of its exports list, which are all it
+ * tells about symbols.
+ */
+export function parseMapFile(uri: string, text: string): DebugInfo {
+    // Sections are a title followed by a line of dashes, e.g. `Segment list:`.
+    const sections: Map<string, string[]> = new Map();
+    const textLines = text.split(/\r?\n/);
+    let sectionLines: string[] = [];
+    for (let i = 0; i < textLines.length; i++) {
+        if (/:\s*$/.test(textLines[i]) && /^-+\s*$/.test(textLines[i + 1] ?? '')) {
+            sectionLines = [];
+            sections.set(textLines[i].trim().slice(0, -1), sectionLines);
+            i++;
+            continue;
+        }
+        sectionLines.push(textLines[i]);
+    }
+
+    const segments: DebugSegment[] = [];
+    for (const line of sections.get('Segment list') ?? []) {
+        // Name, start, end, size, align
+        const match = /^(\S+)\s+([0-9A-F]{6})\s+[0-9A-F]{6}\s+([0-9A-F]{6})\s+[0-9A-F]+\s*$/i.exec(line);
+        if (match) {
+            segments.push({ name: match[1], start: parseInt(match[2], 16), size: parseInt(match[3], 16) });
+        }
+    }
+
+    const symbols: DebugSymbol[] = [];
+    for (const line of sections.get('Exports list by name') ?? []) {
+        // Two exports per line: the name, the value, and whether it is referenced, a label or an
+        // equate, and its address size.
+        for (const [, name, value, kind] of line.matchAll(/(\S+)\s+([0-9A-F]{6}) [R ]([LE])/g)) {
+            if (kind !== 'L') continue;
+            const address = parseInt(value, 16);
+            // Segments of different banks may run at the same addresses.
+            const containing = segments.filter(segment => isInSegment(address, segment));
+            symbols.push({
+                name,
+                qualifiedName: name,
+                address,
+                segment: containing.length === 1 ? containing[0] : undefined,
+            });
+        }
+    }
+    return createDebugInfo(uri, segments, symbols, []);
+}
+
+function isInSegment(address: number, segment: DebugSegment): boolean {
+    return address >= segment.start && address < segment.start + segment.size;
+}
+
+/**
+ * Reads a debug info or map file, or takes it from the cache if it hasn't changed since.
+ */
+async function loadDebugFile(filePath: string, baseDir: string): Promise<DebugInfo | undefined> {
+    try {
+        const { mtimeMs } = await fs.stat(filePath);
+        const cached = debugInfoCache.get(filePath);
+        if (cached?.mtimeMs === mtimeMs) return cached.info;
+
+        const text = await fs.readFile(filePath, 'utf-8');
+        const uri = URI.file(filePath).toString();
+        const info = path.extname(filePath).toLowerCase() === '.map'
+            ? parseMapFile(uri, text)
+            : await parseDebugFile(uri, text, [baseDir, path.dirname(filePath)]);
+        debugInfoCache.set(filePath, { mtimeMs, info });
+        return info;
+    } catch (e) {
+        debugInfoCache.delete(filePath);
+        return undefined;
+    }
+}
+
+/**
+ * Returns the debug info of a link, or its map if it has no debug info, from the files that the
+ * settings of a file or the target of a link name. Files are read again when they change.
+ * @param uri The file or workspace folder the paths are relative to.
+ * @returns The debug info, or undefined if there is none or it can't be read.
+ */
+export async function getDebugInfo(
+    uri: string,
+    files: Partial<Pick<Ca65Settings, 'debugFile' | 'mapFile'>>
+): Promise<DebugInfo | undefined> {
+    // Sources are named relative to where the build ran, which is usually the workspace folder.
+    const baseDir = resolveWorkspacePath(uri, '.');
+    const debugInfo = files.debugFile
+        ? await loadDebugFile(resolveWorkspacePath(uri, files.debugFile), baseDir)
+        : undefined;
+    if (debugInfo || !files.mapFile) return debugInfo;
+    return loadDebugFile(resolveWorkspacePath(uri, files.mapFile), baseDir);
+}
+
+/**
+ * Returns the debug info of every link of the workspace: that of each target, and that of the
+ * settings of each workspace folder.
+ */
+async function getAllDebugInfos(): Promise<DebugInfo[]> {
+    const infos: Map<string, DebugInfo> = new Map();
+    for (const folderUri of workspaceFolderUris) {
+        const settings = await getDocumentSettings(folderUri);
+        for (const files of [...projectTargets.getTargetsOfFolder(folderUri), settings]) {
+            const info = await getDebugInfo(folderUri, files);
+            if (info) infos.set(info.uri, info);
+        }
+    }
+    return [...infos.values()];
+}
+
+/**
+ * Returns the label of the program that a label or proc of the sources became, if the debug info
+ * tells. The debug info finds it by where it is defined; a map only by name, so only the labels
+ * that are exported are found in it.
+ */
+export function findDebugSymbol(info: DebugInfo | undefined, entity: SymbolTableEntity): DebugSymbol | undefined {
+    const isLabel = entity instanceof Symbol
+        ? LABEL_KINDS.includes(entity.kind)
+        : entity instanceof Scope && entity.kind === ScopeKind.Proc;
+    if (!info || !isLabel) return undefined;
+
+    const candidates = info.symbolsByName.get(entity.name) ?? [];
+    if (info.lines.length === 0) {
+        const isExported = entity.getScopeStack().length === 0 && exportsMap.get(entity.name).length > 0;
+        return isExported && candidates.length === 1 ? candidates[0] : undefined;
+    }
+
+    // Labels defined by macros may not be at the line they were found at.
+    const filePath = URI.parse(entity.uri).fsPath;
+    const inFile = candidates.filter(candidate => candidate.filePath === filePath);
+    return inFile.find(candidate => candidate.line === entity.definition.start.line)
+        ?? (inFile.length === 1 ? inFile[0] : undefined);
+}
+
+/**
+ * Returns the label of the program that a label or proc became, from the debug info of its file.
+ */
+export async function getEntityAddress(entity: SymbolTableEntity): Promise<DebugSymbol | undefined> {
+    const info = await getDebugInfo(entity.uri, await getDocumentSettings(entity.uri));
+    return findDebugSymbol(info, entity);
+}
+
+/**
+ * Tells what is at an address in each segment that contains it: the closest label at or before it,
+ * and the line that assembled to it. A line of the sources is preferred to one of a macro body, and
+ * the smallest line that contains the address to those that contain it too, like the line of a
+ * macro invocation does.
+ */
+export function lookupAddress(info: DebugInfo, address: number): AddressLocation[] {
+    const results: AddressLocation[] = [];
+    for (const segment of info.segments.filter(segment => isInSegment(address, segment))) {
+        let label: DebugSymbol | undefined;
+        for (const symbol of info.symbols) {
+            const inSegment = symbol.segment ? symbol.segment === segment : isInSegment(symbol.address, segment);
+            if (inSegment && symbol.address <= address && (!label || symbol.address > label.address)) {
+                label = symbol;
+            }
+        }
+
+        let line: DebugLine | undefined;
+        for (const candidate of info.lines) {
+            if (candidate.segment !== segment) continue;
+            if (address < candidate.address || address >= candidate.address + candidate.size) continue;
+            if (
+                !line
+                || (line.inMacro && !candidate.inMacro)
+                || (line.inMacro === candidate.inMacro && candidate.size < line.size)
+            ) {
+                line = candidate;
+            }
+        }
+
+        let location: Location | undefined;
+        if (line) {
+            location = createLineLocation(line.filePath, line.line);
+        } else if (label?.filePath !== undefined && label.line !== undefined) {
+            location = createLineLocation(label.filePath, label.line);
+        }
+        const offset = label ? address - label.address : 0;
+        results.push({
+            label: label && (offset > 0 ? `${label.qualifiedName}+${offset}` : label.qualifiedName),
+            segment: segment.name,
+            location,
+            source: info.uri,
+        });
+    }
+    return results;
+}
+
+function createLineLocation(filePath: string, line: number): Location {
+    return Location.create(URI.file(filePath).toString(), Range.create(line, 0, line, 0));
+}
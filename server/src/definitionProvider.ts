@@ -3,14 +3,14 @@ import {
     TextDocuments,
     Definition,
     DefinitionParams,
-    Range,
     Location,
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { getAnonymousLabelDefinition } from './anonymousLabelUtils';
-import { findCheapLocalLabelDefinition } from './cheapLocalLabelUtils';
-import { resolveReferenceAtPosition } from './symbolResolver';
-import { getDocumentSettings, includesGraph, initializationGate, symbolTables } from './server';
+import { getLinkerConfig } from './linkerConfig';
+import { isLibraryUri } from './objectFiles';
+import { resolveLocalReference, resolveReferenceCandidates } from './symbolResolver';
+import { getDocumentSettings, includesGraph, initializationGate, symbolTables } from './workspace';
 import { documentSettings } from './settings';
 
 export function initializeDefinitionProvider(connection: _Connection, documents: TextDocuments<TextDocument>) {
@@ -27,34 +27,34 @@ export function initializeDefinitionProvider(connection: _Connection, documents:
         
         const settings = await getDocumentSettings(params.textDocument.uri);
 
-        const foundEntity = resolveReferenceAtPosition(
-            params.textDocument.uri, params.position, symbolTables, includesGraph, settings.implicitImports
-        );
-
-        if (foundEntity) {
-            return Location.create(foundEntity.uri, foundEntity.definition);
+        // Segments are defined in the linker config.
+        const segmentReference = symbolTables.get(params.textDocument.uri)?.getSegmentReferenceAtPosition(params.position);
+        if (segmentReference) {
+            const config = await getLinkerConfig(params.textDocument.uri, settings);
+            const segment = config?.segments.get(segmentReference.name);
+            return config && segment ? Location.create(config.uri, segment.range) : undefined;
         }
 
-        // Fallback for special, non-symbol labels
-        const lineText = document.getText(Range.create(
-            params.position.line, 0,
-            params.position.line + 1, 0
-        ));
-
-        function isCursorOnMatch(cursor: number, match: RegExpExecArray) {
-            return cursor >= match.index! && cursor <= match.index! + match[0].length;
+        // An import can resolve to a different export in each target the file is linked into.
+        const ref = symbolTables.get(params.textDocument.uri)?.getReferenceAtPosition(params.position);
+        const candidates = ref
+            ? resolveReferenceCandidates(ref, symbolTables, includesGraph, settings.implicitImports)
+            : [];
+        // Symbols of prebuilt libraries have no source, so their imports are the closest thing.
+        let foundEntities = candidates.filter(entity => !isLibraryUri(entity.uri));
+        if (ref && candidates.length > 0 && foundEntities.length === 0) {
+            const importEntity = resolveLocalReference(ref, symbolTables, includesGraph);
+            if (importEntity) foundEntities = [importEntity];
         }
 
-        const cheapRegex = /@[\w]+/g;
-        let m: RegExpExecArray | null;
-        while ((m = cheapRegex.exec(lineText)) !== null) {
-            if (isCursorOnMatch(params.position.character, m)) {
-                const defCheap = findCheapLocalLabelDefinition(document, params.position, m[0]);
-                if (defCheap) return defCheap;
-                break; // stop after first match under cursor
-            }
+        if (foundEntities.length === 1) {
+            return Location.create(foundEntities[0].uri, foundEntities[0].definition);
+        }
+        if (foundEntities.length > 1) {
+            return foundEntities.map(entity => Location.create(entity.uri, entity.definition));
         }
 
+        // Fallback for anonymous labels, which aren't symbols
         const anonLabelDef = getAnonymousLabelDefinition(document, params.position);
         if (anonLabelDef) return anonLabelDef;
     });
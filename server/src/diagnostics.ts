@@ -15,7 +15,7 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 import * as path from 'path';
 import { execFile } from 'child_process';
 import { URI } from 'vscode-uri';
-import { getDocumentSettings, includesGraph, initializationGate, performanceMonitor, symbolTables } from './server';
+import { getDocumentSettings, includesGraph, initializationGate, performanceMonitor, symbolTables } from './workspace';
 import * as fs from 'fs/promises';
 import * as os from "os";
 import { promisify } from 'util';
@@ -23,6 +23,10 @@ import { Ca65Settings } from './settings';
 import which from "which";
 import { getWorkspaceFolderOfFile, getWorkspaceRelativePath, resolveWorkspaceRelativeDirs } from './pathUtils';
 import { isEntityUsed } from './symbolResolver';
+import { TokenKind, tokenizeLine } from './lexer';
+import { getFeatureArgs, getInitialFeatures } from './features';
+import { isMacpackUri } from './macpacks';
+import { getLinkerConfig } from './linkerConfig';
 
 const execFileAsync = promisify(execFile);
 
@@ -63,7 +67,7 @@ async function findUnusedSymbolDiagnostics(uri: string, checkedUnusedSymbols: Se
         i++;
 
         const fqn = entity.getFullyQualifiedName();
-        if (entity.name.startsWith('<anon') || checkedUnusedSymbols.has(fqn)) {
+        if (entity.name.startsWith('<') || checkedUnusedSymbols.has(fqn)) {
             continue;
         }
         
@@ -89,6 +93,28 @@ async function findUnusedSymbolDiagnostics(uri: string, checkedUnusedSymbols: Se
     return lspDiagnostics;
 }
 
+/**
+ * Finds the `.segment` directives of a file that name a segment its linker config doesn't have.
+ * @param uri The URI of the document to check.
+ * @returns An array of diagnostics for unknown segments, empty if the file has no linker config.
+ */
+async function findUnknownSegmentDiagnostics(uri: string): Promise<Diagnostic[]> {
+    const symbolTable = symbolTables.get(uri);
+    if (!symbolTable || symbolTable.segmentReferences.length === 0) return [];
+    const config = await getLinkerConfig(uri, await getDocumentSettings(uri));
+    if (!config) return [];
+
+    const configPath = getWorkspaceRelativePath(config.uri) ?? URI.parse(config.uri).fsPath;
+    return symbolTable.segmentReferences
+        .filter(reference => !config.segments.has(reference.name))
+        .map(reference => ({
+            severity: DiagnosticSeverity.Warning,
+            range: reference.range,
+            message: `Segment '${reference.name}' is not in the linker config ${configPath}.`,
+            source: 'ca65-lsp',
+        }));
+}
+
 /**
  * Checks if a file exists and is executable.
  */
@@ -165,8 +191,10 @@ async function getCompilerDiagnosticsForUnit(
         args.push('--bin-include-dir', binIncludeDir);
     }
 
-    if (settings.lineContinuations) {
-        args.push('--feature', 'line_continuations');
+    args.push(...getFeatureArgs(getInitialFeatures(settings)));
+    if (settings.cpu) args.push('--cpu', settings.cpu);
+    for (const [name, value] of Object.entries(settings.defines ?? {})) {
+        args.push('-D', `${name}=${value}`);
     }
 
     let stderr = '';
@@ -216,7 +244,9 @@ async function getCompilerDiagnosticsForUnit(
 
                 if (errorDocument) {
                     const lineText = errorDocument.getText(Range.create(lineNumber, 0, lineNumber + 1, 0));
-                    const lineWithoutComment = lineText.includes(';') ? lineText.substring(0, lineText.indexOf(';')) : lineText;
+                    const lineTokens = tokenizeLine(lineText);
+                    const commentToken = lineTokens.find(token => token.kind === TokenKind.Comment);
+                    const lineWithoutComment = commentToken ? lineText.substring(0, commentToken.index) : lineText;
                     const trimmedLine = lineWithoutComment.trim();
                     const startChar = lineWithoutComment.indexOf(trimmedLine);
                     const endChar = startChar + trimmedLine.length;
@@ -290,6 +320,8 @@ export function triggerValidation(uri: string, debounce: boolean = true, allFile
         if (!allFilesToUpdate) {
             allFilesToUpdate = new Set(includesGraph.getTranslationUnit(uri));
         }
+        // The bundled macro packages have no diagnostics of their own.
+        allFilesToUpdate = new Set([...allFilesToUpdate].filter(fileUri => !isMacpackUri(fileUri)));
 
         const allRoots = Array.from(includesGraph.getIncludingRoots(uri));
         const settings = await getDocumentSettings(uri);
@@ -330,7 +362,19 @@ export function triggerValidation(uri: string, debounce: boolean = true, allFile
             }
         }
 
-        // 3. Gather context-independent "unused symbol" diagnostics ONCE.
+        // 3. Gather the diagnostics found while scanning.
+        for (const fileUri of allFilesToUpdate) {
+            fullDiagnosticsByUri.get(fileUri)?.push(...symbolTables.get(fileUri)?.diagnostics ?? []);
+        }
+
+        // 4. Flag segments that the linker config doesn't have.
+        for (const fileUri of allFilesToUpdate) {
+            const unknownSegmentDiags = await findUnknownSegmentDiagnostics(fileUri);
+            if (signal.aborted) return;
+            fullDiagnosticsByUri.get(fileUri)?.push(...unknownSegmentDiags);
+        }
+
+        // 5. Gather context-independent "unused symbol" diagnostics ONCE.
         if (settings.enableUnusedSymbolDiagnostics) {
             const checkedUnusedSymbols = new Set<string>();
             for (const fileUri of allFilesToUpdate) {
@@ -340,7 +384,7 @@ export function triggerValidation(uri: string, debounce: boolean = true, allFile
             }
         }
 
-        // 4. Send the final, consolidated diagnostics for every affected file.
+        // 6. Send the final, consolidated diagnostics for every affected file.
         for (const fileUri of allFilesToUpdate) {
             connection.sendDiagnostics({ uri: fileUri, diagnostics: fullDiagnosticsByUri.get(fileUri) || [] });
         }
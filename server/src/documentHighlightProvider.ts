@@ -5,8 +5,7 @@ import {
     DocumentHighlight,
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { getDocumentSettings, includesGraph, initializationGate, symbolTables } from './server';
-import { findAllCheapLocalLabelReferences } from './cheapLocalLabelUtils';
+import { getDocumentSettings, includesGraph, initializationGate, symbolTables } from './workspace';
 import { findAllAnonLabelReferences } from './anonymousLabelUtils';
 import { getAllReferenceLocationsForEntity, resolveReferenceAtPosition } from './symbolResolver';
 
@@ -36,11 +35,6 @@ export function initializeDocumentHighlightProvider(connection: _Connection, doc
                 .map(loc => DocumentHighlight.create(loc.range));
         }
 
-        const cheapLocalLabelRefs = findAllCheapLocalLabelReferences(document, params.position);
-        if (cheapLocalLabelRefs?.length > 0) {
-            return cheapLocalLabelRefs.map(loc => DocumentHighlight.create(loc.range));
-        }
-
         const anonLabelRefs = findAllAnonLabelReferences(document, params.position);
         if (anonLabelRefs?.length > 0) {
             return anonLabelRefs.map(loc => DocumentHighlight.create(loc.range));
@@ -8,7 +8,7 @@ import {
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { URI } from 'vscode-uri';
 import { resolveIncludeUri } from './pathUtils';
-import { getDocumentSettings, initializationGate } from './server';
+import { getDocumentSettings, initializationGate } from './workspace';
 
 export function initializeDocumentLinkProvider(connection: _Connection, documents: TextDocuments<TextDocument>) {
     connection.onDocumentLinks(async (params: DocumentLinkParams): Promise<DocumentLink[] | undefined> => {
@@ -1,76 +1,74 @@
 import {
+    DiagnosticSeverity,
+    Position,
     Range,
 } from 'vscode-languageserver-types';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { Export, ExportKind, ImportKind, Macro, MacroKind, ReferenceInfo, Scope, ScopeKind, Symbol, SymbolKind, SymbolTable, SymbolTableEntity } from './symbolTable';
+import { ConditionalBlock, Export, ExportKind, Import, ImportKind, Macro, MacroKind, ReferenceInfo, RegisterWidths, ScanCheckpoint, Scope, ScopeKind, Segment, Symbol, SymbolKind, SymbolTable, SymbolTableEntity } from './symbolTable';
 // import { getSymbolsAtLine } from './symbolUtils';
 import { URI } from 'vscode-uri';
 import * as path from 'path';
 import { getAnonLabelRefOffsetFromPreviousLabel } from './anonymousLabelUtils';
-import { getDocumentSettings, performanceMonitor } from './server';
+import { getDocumentSettings, includesGraph, performanceMonitor, symbolTables } from './workspace';
 import { resolveIncludeUri } from './pathUtils';
-import { mnemonicData } from './dataManager';
+import { getMnemonicData, normalizeCpu } from './dataManager';
+import { LexerOptions, Token, TokenKind, maskCComments, stripComment, tokenEnd, tokenizeLine } from './lexer';
+import { ExpressionNode, NameNode, collectNames, parseExpression, parseOperands } from './expressionParser';
+import { NameResolver, ScanContext, evaluateExpression, evaluateString } from './expressionEvaluator';
+import { resolveImport } from './symbolResolver';
+import { expandMacro } from './macroExpander';
+import { applyFeatureDirective, getInitialFeatures } from './features';
+import { getMacpackUri } from './macpacks';
+import { Ca65Settings } from './settings';
+import { createDefineScope, getProjectManifestUri } from './projectTargets';
 
 type LineItem = {
     text: string;
     index: number;
 };
 
-export function parseLine(line: string): {
+export function parseLine(line: string, tokens: Token[] = tokenizeLine(line)): {
     label?: LineItem;
-    command?: LineItem;
+    command?: Token;
     args?: LineItem; // the raw text + index for "everything to the right of the command"
     comment?: LineItem;
 } {
-    function getNextRest(
-        rest: string,
-        currentOffset: number,
-        startIndex: number
-    ): [string, number] {
-        const afterStart = rest.slice(startIndex);
-        const trimmed = afterStart.trimLeft();
-        const skipped = afterStart.length - trimmed.length;
-
-        const nextRest = trimmed;
-        const nextRestOffset = currentOffset + Math.min(startIndex, rest.length) + skipped;
-
-        return [nextRest, nextRestOffset];
-    }
-
     // Slice the comment off first
     let comment: LineItem | undefined;
-    const semicolonIndex = line.indexOf(';');
-    if (semicolonIndex >= 0) {
-        comment = {text: line.slice(semicolonIndex), index: semicolonIndex};
-        line = line.slice(0, semicolonIndex);
-    } 
+    const lastToken = tokens[tokens.length - 1];
+    if (lastToken?.kind === TokenKind.Comment) {
+        comment = { text: lastToken.text, index: lastToken.index };
+        tokens = tokens.slice(0, -1);
+    }
 
+    // Get the label to the left of the colon, if any. A lone colon is an anonymous label.
     let label: LineItem | undefined;
-    let [rest, restOffset] = getNextRest(line, 0, 0);
-
-    // Get the label to the left of the colon, if any.
-    const colonIndex = rest.indexOf(':');
-    if (colonIndex >= 0) {
-        const nextChar = rest.charAt(colonIndex + 1);
-        if (!nextChar || !':<>+-'.includes(nextChar)) {
-            const labelText = rest.slice(0, colonIndex).trim();
-            if (!labelText.match(/\s+/)) {
-                label = { text: labelText, index: restOffset };
-                [rest, restOffset] = getNextRest(rest, restOffset, colonIndex + 1);
-            }
-        }
+    let next = 0;
+    if (tokens[0]?.kind === TokenKind.Operator && tokens[0].text === ':') {
+        label = { text: '', index: tokens[0].index };
+        next = 1;
+    } else if (
+        (tokens[0]?.kind === TokenKind.Identifier || tokens[0]?.kind === TokenKind.CheapLocal)
+        && tokens[1]?.kind === TokenKind.Operator
+        && tokens[1].text === ':'
+    ) {
+        label = { text: tokens[0].text, index: tokens[0].index };
+        next = 2;
     }
 
     // Get the command and args
-    let command: LineItem | undefined;
+    let command: Token | undefined;
     let args: LineItem | undefined;
-    const commandText = rest.trim().split(/\s+/)[0];
-    if (commandText) {
-        command = { text: commandText, index: restOffset };
-        [rest, restOffset] = getNextRest(rest, restOffset, commandText.length);
-
-        if (rest.length > 0) {
-            args = { text: rest.trimRight(), index: restOffset }
+    const commandToken = tokens[next];
+    if (commandToken) {
+        command = commandToken;
+
+        const firstArg = tokens[next + 1];
+        if (firstArg) {
+            args = {
+                text: line.slice(firstArg.index, tokenEnd(tokens[tokens.length - 1])),
+                index: firstArg.index
+            };
         }
     }
 
@@ -79,97 +77,39 @@ export function parseLine(line: string): {
 
 interface ParsedQualifiedName extends LineItem {
     context: ReferenceInfo[`context`];
+    node: NameNode;
 }
 
-export function parseQualifiedNames(argsText: string, argsOffset: number = 0): ParsedQualifiedName[][] {
+export function parseQualifiedNames(
+    argsText: string,
+    argsOffset: number = 0,
+    options: LexerOptions = {}
+): ParsedQualifiedName[][] {
     if (!argsText) return [];
 
     const allGroups: ParsedQualifiedName[][] = [];
-    
-    // Use a mutable copy of the text to work with
-    let mutableArgsText = argsText;
-
-    mutableArgsText = mutableArgsText
-        // mask strings
-        .replace(/"([^"]*)"/g, (m, inner) => `"${' '.repeat(inner.length)}"`)
-        // mask hex numbers
-        .replace(/\$[0-9a-fA-F]+/g, (m) => ' '.repeat(m.length))
-        // mask character literals
-        .replace(/'([^']*)'/g, (m, inner) => `'${' '.repeat(inner.length)}'`);
-
-    // --- Pass 1: Find and parse all .sizeof expressions ---
-    const sizeofRegex = /\.sizeof\s*\(([^)]*)\)/g;
-    let sizeofMatch: RegExpExecArray | null;
-    while ((sizeofMatch = sizeofRegex.exec(mutableArgsText))) {
-        const innerContent = sizeofMatch[1];
-        // Calculate the absolute offset of the content within the original string
-        const innerOffset = argsOffset + sizeofMatch.index + sizeofMatch[0].indexOf('(') + 1;
-
-        // Run the parsing logic on the inner content with the 'sizeof' context
-        let currentGroup: ParsedQualifiedName[] = [];
-        const regex = /(::)?\s*([A-Za-z_@][A-Za-z0-9_]*)|(\S)/g;
-        let match: RegExpExecArray | null;
-        while ((match = regex.exec(innerContent))) {
-            const hasDoubleColon = !!match[1];
-            const identifier = match[2];
-            const unexpected = match[3];
-
-            if (unexpected) {
-                if (currentGroup.length > 0) allGroups.push(currentGroup);
-                currentGroup = [];
-                continue;
-            }
-            if (!identifier) continue;
-
-            const index = innerOffset + match.index + (identifier ? match[0].indexOf(identifier) : 0);
+    const tokens = stripComment(tokenizeLine(argsText, options))
+        .map(token => ({ ...token, index: token.index + argsOffset }));
 
-            if (!hasDoubleColon) {
-                if (currentGroup.length > 0) allGroups.push(currentGroup);
-                currentGroup = [{ text: identifier, index, context: 'sizeof' }];
-            } else {
-                if (currentGroup.length === 0) {
-                    currentGroup.push({ text: '', index: innerOffset + match.index, context: 'sizeof' });
-                }
-                currentGroup.push({ text: identifier, index, context: 'sizeof' });
-            }
-        }
-        if (currentGroup.length > 0) allGroups.push(currentGroup);
+    for (const operand of parseOperands(tokens)) {
+        allGroups.push(...getQualifiedNamesOfExpression(operand));
     }
 
-    // Blank out the .sizeof expressions so they aren't parsed again
-    mutableArgsText = mutableArgsText.replace(/\.sizeof\s*\(([^)]*)\)/g, (m) => ' '.repeat(m.length));
-
-
-    // --- Pass 2: Parse the rest of the text for regular symbols ---
-    let currentGroup: ParsedQualifiedName[] = [];
-    const mainRegex = /(::)?\s*([A-Za-z_@][A-Za-z0-9_]*)|(\S)/g;
-    let mainMatch: RegExpExecArray | null;
-    while ((mainMatch = mainRegex.exec(mutableArgsText))) {
-        const hasDoubleColon = !!mainMatch[1];
-        const identifier = mainMatch[2];
-        const unexpected = mainMatch[3];
-
-        if (unexpected) {
-            if (currentGroup.length > 0) allGroups.push(currentGroup);
-            currentGroup = [];
-            continue;
-        }
-        if (!identifier) continue;
-
-        const index = argsOffset + mainMatch.index + (identifier ? mainMatch[0].indexOf(identifier) : 0);
+    return allGroups;
+}
 
-        if (!hasDoubleColon) {
-            if (currentGroup.length > 0) allGroups.push(currentGroup);
-            currentGroup = [{ text: identifier, index, context: 'symbol' }];
-        } else {
-            if (currentGroup.length === 0) {
-                currentGroup.push({ text: '', index: argsOffset + mainMatch.index, context: 'symbol' }); // Root scope
-            }
-            currentGroup.push({ text: identifier, index, context: 'symbol' });
-        }
+function getQualifiedNamesOfExpression(expression: ExpressionNode): ParsedQualifiedName[][] {
+    const allGroups: ParsedQualifiedName[][] = [];
+    for (const name of collectNames(expression)) {
+        // A trailing '::' with no name after it is not a reference.
+        if (name.parts[name.parts.length - 1].text.length === 0) continue;
+        allGroups.push(name.parts.map(part => ({
+            text: part.text,
+            index: part.index,
+            context: name.context,
+            node: name
+        })));
     }
-    if (currentGroup.length > 0) allGroups.push(currentGroup);
-
     return allGroups;
 }
 
@@ -180,61 +120,61 @@ export interface ParsedImportExportArgs {
     value?: LineItem;
 }
 
-export function parseImportExportArgs(text: string, offset: number): ParsedImportExportArgs[] {
-    function trimWithOffset(str: string, baseOffset: number): [string, number] {
-        const trimmed = str.trimLeft();
-        const skipped = str.length - trimmed.length;
-        return [trimmed, baseOffset + skipped];
+export function parseImportExportArgs(
+    text: string,
+    offset: number,
+    options: LexerOptions = {}
+): ParsedImportExportArgs[] {
+    const tokens = stripComment(tokenizeLine(text, options));
+
+    // Split the tokens on top-level commas.
+    const rawGroups: Token[][] = [[]];
+    let parenDepth = 0;
+    for (const token of tokens) {
+        if (token.kind === TokenKind.Operator) {
+            if (token.text === '(') parenDepth++;
+            if (token.text === ')') parenDepth--;
+            if (token.text === ',' && parenDepth === 0) {
+                rawGroups.push([]);
+                continue;
+            }
+        }
+        rawGroups[rawGroups.length - 1].push(token);
     }
 
     const groups: ParsedImportExportArgs[] = [];
-    let currentOffset = offset;
-
-    for (const rawGroup of text.split(",")) {
-        let [rest, restOffset] = trimWithOffset(rawGroup, currentOffset);
-        currentOffset += rawGroup.length + 1; // account for comma
-
-        if (!rest) continue;
+    for (const rawGroup of rawGroups) {
+        if (rawGroup.length === 0) continue;
 
         const group: ParsedImportExportArgs = {};
+        let i = 0;
 
-        // 1: leading identifier (up to first special token)
-        let m = rest.match(/^([^:=\s]+)/);
-        if (m) {
-            group.identifier = { text: m[1], index: restOffset };
-            rest = rest.slice(m[0].length);
-            restOffset += m[0].length;
+        // 1: leading identifier
+        if (rawGroup[i].kind === TokenKind.Identifier) {
+            group.identifier = { text: rawGroup[i].text, index: offset + rawGroup[i].index };
+            i++;
         }
 
-        // trim again
-        [rest, restOffset] = trimWithOffset(rest, restOffset);
-
-        // 2: optional ":" identifier
-        if (rest.startsWith(":")) {
-            rest = rest.slice(1);
-            restOffset++;
-            [rest, restOffset] = trimWithOffset(rest, restOffset);
-
-            m = rest.match(/^([^:=\s]+)/);
-            if (m) {
-                group.addressSpecification = { text: m[1], index: restOffset };
-                rest = rest.slice(m[0].length);
-                restOffset += m[0].length;
+        // 2: optional ":" address size
+        if (rawGroup[i]?.kind === TokenKind.Operator && rawGroup[i].text === ':') {
+            i++;
+            if (rawGroup[i]?.kind === TokenKind.Identifier) {
+                group.addressSpecification = { text: rawGroup[i].text, index: offset + rawGroup[i].index };
+                i++;
             }
-            [rest, restOffset] = trimWithOffset(rest, restOffset);
         }
 
         // 3: optional assignment
-        if (rest.startsWith(":=") || rest.startsWith("=")) {
-            const op = rest.startsWith(":=") ? ":=" : "=";
-            group.assignmentOp = { text: op, index: restOffset };
-            rest = rest.slice(op.length);
-            restOffset += op.length;
-
-            [rest, restOffset] = trimWithOffset(rest, restOffset);
-
-            if (rest.length > 0) {
-                group.value = { text: rest.trimRight(), index: restOffset };
+        const op = rawGroup[i];
+        if (op?.kind === TokenKind.Operator && (op.text === ':=' || op.text === '=')) {
+            group.assignmentOp = { text: op.text, index: offset + op.index };
+            i++;
+
+            if (i < rawGroup.length) {
+                group.value = {
+                    text: text.slice(rawGroup[i].index, tokenEnd(rawGroup[rawGroup.length - 1])),
+                    index: offset + rawGroup[i].index
+                };
             }
         }
 
@@ -244,20 +184,325 @@ export function parseImportExportArgs(text: string, offset: number): ParsedImpor
     return groups;
 }
 
+// Guards against runaway recursive macros.
+const MAX_MACRO_EXPANSION_DEPTH = 16;
+// Guards against repeating a block more often than is worth scanning.
+const MAX_REPEAT_COUNT = 1024;
+
+// The address size keywords of `.segment`, by the address size they stand for.
+const SEGMENT_ADDRESS_SIZES: Record<string, string> = {
+    zeropage: 'zeropage',
+    direct: 'zeropage',
+    absolute: 'absolute',
+    abs: 'absolute',
+    near: 'absolute',
+    far: 'far',
+    long: 'long',
+    dword: 'long',
+};
+
+// The segments that the directives of the same name switch to.
+const SEGMENT_DIRECTIVES: Record<string, string> = {
+    '.code': 'CODE',
+    '.data': 'DATA',
+    '.bss': 'BSS',
+    '.zeropage': 'ZEROPAGE',
+    '.rodata': 'RODATA',
+};
+
+// The CPUs that the directives of the same name switch to.
+const CPU_DIRECTIVES: Record<string, string> = {
+    '.p02': '6502',
+    '.p02x': '6502X',
+    '.psc02': '65SC02',
+    '.pc02': '65C02',
+    '.pwc02': 'W65C02',
+    '.p816': '65816',
+};
+
+// Instructions whose immediate operand has the width of the accumulator or the index registers.
+const ACCUMULATOR_IMMEDIATE_MNEMONICS = new Set(['adc', 'and', 'bit', 'cmp', 'eor', 'lda', 'ora', 'sbc']);
+const INDEX_IMMEDIATE_MNEMONICS = new Set(['cpx', 'cpy', 'ldx', 'ldy']);
+
+// Element sizes of the storage allocators in a struct.
+const STRUCT_ALLOCATOR_SIZES: Record<string, number> = {
+    '.byte': 1,
+    '.res': 1,
+    '.dbyt': 2,
+    '.word': 2,
+    '.addr': 2,
+    '.faraddr': 3,
+    '.dword': 4,
+};
+
+interface StructFrame {
+    kind: ScopeKind.Struct | ScopeKind.Union;
+    // The scope of a named struct. Anonymous ones have none, see maybeHandleStructUnionContent.
+    scope?: Scope;
+    // Where an anonymous struct starts, for folding.
+    start?: Position;
+    // The offset of the next member, or undefined if the size of an earlier member isn't known.
+    offset: number | undefined;
+    size: number | undefined;
+}
+
+interface MacroExpansionState {
+    // End of the invocation line
+    end: Position;
+    // The name of the outermost invoked macro, which text from macro bodies maps to.
+    nameRange: Range;
+    // Invocation line columns of the expanded line, see ExpandedLine.
+    columns: (number | undefined)[];
+    depth: number;
+}
+
+// A line as it was scanned, with the state its ranges are mapped by.
+interface RecordedLine {
+    line: number;
+    text: string;
+    tokens: Token[];
+    expansion: MacroExpansionState | undefined;
+    continuedLinePositions: Position[] | undefined;
+}
+
+interface RepeatFrame {
+    scope: Scope;
+    counter?: Symbol;
+    // The number of repetitions, or undefined if it isn't known.
+    count: number | undefined;
+    // The macro expansion depth the block is in. Lines of deeper expansions are repeated by
+    // repeating their invocation.
+    expansionDepth: number;
+    lines: RecordedLine[];
+}
+
 export async function scanDocument(document: TextDocument): Promise<SymbolTable> {
     const symbolTable = new SymbolTable(document.uri);
-    const settings = await getDocumentSettings(document.uri);
+    scanLines(document, symbolTable, await getDocumentSettings(document.uri));
+    return symbolTable;
+}
+
+/**
+ * Scans the lines of a document into a symbol table, from the start or from a checkpoint of an
+ * earlier scan of it.
+ * @param onCheckpoint Called at the start of each top-level block. Returns the checkpoint to go on
+ *     from: the one given, a later one to skip the lines in between, or undefined to stop.
+ * @returns Whether the scan reached the end of the document.
+ */
+export function scanLines(
+    document: TextDocument,
+    symbolTable: SymbolTable,
+    settings: Ca65Settings,
+    start?: ScanCheckpoint,
+    onCheckpoint?: (checkpoint: ScanCheckpoint) => ScanCheckpoint | undefined
+): boolean {
     performanceMonitor.start("scanDocument");
+    symbolTable.scannedText = document.getText();
+    symbolTable.scannedSettings = JSON.stringify(settings);
     let currentScope: Scope = symbolTable.getRootScope();
     let currentMacro: Macro | null;
 
-    let currentSegment: string = 'CODE';
+    // The segment in effect, and whether it is still the one the file was included in. That isn't
+    // known here, so it is taken to be CODE.
+    let currentSegment: Segment = { name: 'CODE' };
+    let segmentInherited = true;
+    const segmentStack: { segment: Segment, inherited: boolean }[] = [];
+
+    const switchSegment = (name: string) => {
+        const addressSize = symbolTable.segmentAddressSizes.get(name)
+            ?? (name === 'ZEROPAGE' ? 'zeropage' : undefined);
+        currentSegment = { name, addressSize: addressSize === 'absolute' ? undefined : addressSize };
+        segmentInherited = false;
+    }
+
+    const features = getInitialFeatures(settings);
+
+    // The names looked up while scanning the current top-level block.
+    let lookups: Set<string> | undefined;
+    const noteLookup = (...names: string[]) => {
+        for (const name of names) lookups?.add(name);
+    }
+
+    // The region cheap local labels are currently defined and looked up in.
+    let cheapLocalScope = new Scope(
+        document.uri, ScopeKind.CheapLocal, '<cheap locals>', Range.create(0, 0, 0, 0), currentScope
+    );
+    if (!start) symbolTable.cheapLocalRegions.push({ scope: cheapLocalScope });
+
+    const isCheapLocal = (name: string) => name.startsWith('@');
+
+    let currentCpu = normalizeCpu(settings.cpu);
+    const cpuStack: string[] = [];
+
+    const manifestUri = getProjectManifestUri(document.uri);
+    const defineScope = manifestUri && settings.defines
+        ? createDefineScope(manifestUri, settings.defines)
+        : undefined;
+
+    // The 65816 register widths, which `rep` and `sep` change in smart mode.
+    let registerWidths: RegisterWidths = { accumulator: 8, index: 8 };
+    let smartMode = false;
+
+    const addRegisterWidthHint = (line: number, text: string) => {
+        if (currentCpu !== '65816' || repeatedPass) return;
+        const position = createEndPosition(line, text.trimEnd().length);
+        const hints = symbolTable.registerWidthHints;
+        const last = hints[hints.length - 1];
+        if (last && last.position.line === position.line && last.position.character === position.character) {
+            hints.pop();
+        }
+        hints.push({ position, widths: registerWidths });
+    }
+
+    const setRegisterWidths = (line: number, text: string, widths: Partial<RegisterWidths>) => {
+        registerWidths = { ...registerWidths, ...widths };
+        addRegisterWidthHint(line, text);
+    }
+
+    /**
+     * Tracks `rep` and `sep` in smart mode, and checks that immediate operands fit the width of
+     * the register they are loaded into.
+     */
+    const handleImmediateOperand = (line: number, text: string, cmd: string, hash: Token, operand: ExpressionNode) => {
+        const value = evaluateExpression(operand, document.uri, settings.implicitImports, scanContext);
+        if (value === undefined) return;
+
+        if (cmd === 'rep' || cmd === 'sep') {
+            if (!smartMode || currentCpu !== '65816') return;
+            const width = cmd === 'rep' ? 16 : 8;
+            setRegisterWidths(line, text, {
+                ...(value & 0x20 ? { accumulator: width } : {}),
+                ...(value & 0x10 ? { index: width } : {}),
+            });
+            return;
+        }
+
+        const register = ACCUMULATOR_IMMEDIATE_MNEMONICS.has(cmd) ? 'accumulator'
+            : INDEX_IMMEDIATE_MNEMONICS.has(cmd) ? 'index'
+            : undefined;
+        if (!register) return;
+        const width = currentCpu === '65816' ? registerWidths[register] : 8;
+        const fits = width === 8 ? value >= -0x80 && value <= 0xFF : value >= -0x8000 && value <= 0xFFFF;
+        if (fits) return;
+
+        const formattedValue = value < 0 ? String(value) : `$${value.toString(16).toUpperCase()}`;
+        const range = createRange(line, hash.index, line, text.trimEnd().length);
+        const message = `Immediate value ${formattedValue} doesn't fit the ${width}-bit ${register === 'accumulator' ? 'accumulator' : 'index registers'}.`;
+        // Each repetition of a .repeat block may warn about a different value, but once is enough.
+        if (symbolTable.diagnostics.some(diagnostic =>
+            diagnostic.range.start.line === range.start.line
+            && diagnostic.range.start.character === range.start.character
+        )) {
+            return;
+        }
+        symbolTable.diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range,
+            message,
+            source: 'ca65-lsp',
+        });
+    }
+
+    const switchCpu = (line: number, text: string, cpu: string) => {
+        currentCpu = cpu;
+        if (repeatedPass) return;
+        symbolTable.cpuChanges.push({ line: getPhysicalPosition(line, text.length).line + 1, cpu });
+    }
 
     let currentLabel: Symbol | undefined;
     let pendingLabelKindSet: boolean = false;
 
     let nextAnonLabelIndex = 0;
 
+    // The implicit value of the next member of the current .enum.
+    let nextEnumValue: ExpressionNode | undefined;
+
+    // Open .struct and .union blocks, innermost last.
+    const structStack: StructFrame[] = [];
+
+    // Open conditional assembly blocks, innermost last.
+    const conditionalStack: {
+        block: ConditionalBlock;
+        // Whether an enclosing block excludes this one entirely.
+        outerInactive: boolean;
+        // Whether an earlier branch was assembled, or undefined if that isn't known.
+        taken: boolean | undefined;
+    }[] = [];
+    let inactiveStart: number | undefined;
+
+    // Open .repeat blocks, innermost last. The first repetition is scanned as the lines are read,
+    // and the lines are recorded to scan the others at the end of the block.
+    const repeatStack: RepeatFrame[] = [];
+    // Whether the lines being scanned are a further repetition of a .repeat block. Everything in
+    // them was located on the first repetition, so they add no references, hints, or folding.
+    let repeatedPass = false;
+    // References in .repeat blocks, which see the definitions of the repetition they are in.
+    const repeatReferences: Set<ReferenceInfo> = new Set();
+
+    // The macro invocation being expanded, if any. Its lines are scanned like source lines, with
+    // their ranges mapped back to the invocation.
+    let currentExpansion: MacroExpansionState | undefined;
+    // References from macro bodies, which have no location of their own but may be evaluated.
+    const expansionReferences: Map<NameNode, ReferenceInfo> = new Map();
+
+    // Physical position of each character of the current line, if it is joined from lines ending
+    // in a `\` continuation.
+    let continuedLinePositions: Position[] | undefined;
+
+    // Columns of the line as read for each character of the line being scanned, if `.ident` calls
+    // in it were replaced with the names they generate.
+    let generatedNameColumns: number[] | undefined;
+
+    /**
+     * Maps a column of the line being scanned back to the text it came from: the source line, or
+     * the invocation line of a macro expansion.
+     * @returns The column, or undefined if the text comes from a macro body.
+     */
+    const getSourceColumn = (index: number): number | undefined => {
+        let column = index;
+        if (generatedNameColumns) {
+            const last = generatedNameColumns.length - 1;
+            column = index <= last ? generatedNameColumns[index] : generatedNameColumns[last] + index - last;
+        }
+        return currentExpansion ? currentExpansion.columns[column] : column;
+    }
+
+    const getPhysicalPosition = (line: number, character: number): Position => {
+        if (!continuedLinePositions) return { line, character };
+        const last = continuedLinePositions[continuedLinePositions.length - 1];
+        if (character < continuedLinePositions.length) return continuedLinePositions[character];
+        return { line: last.line, character: last.character + character - continuedLinePositions.length + 1 };
+    }
+
+    const createRange = (startLine: number, start: number, endLine: number, end: number): Range => {
+        if (currentExpansion || generatedNameColumns) {
+            const first = getSourceColumn(start);
+            const last = end > start ? getSourceColumn(end - 1) : first;
+            if (first === undefined || last === undefined || first > last) {
+                const nameRange = currentExpansion!.nameRange;
+                return Range.create(nameRange.start, nameRange.end);
+            }
+            end = end > start ? last + 1 : first;
+            start = first;
+        }
+
+        const startPosition = getPhysicalPosition(startLine, start);
+        if (end <= start) return Range.create(startPosition, startPosition);
+        // Map the last character rather than the end, which may be at the start of the next line.
+        const lastPosition = getPhysicalPosition(endLine, end - 1);
+        return Range.create(startPosition, { line: lastPosition.line, character: lastPosition.character + 1 });
+    }
+
+    // Blocks ending in a macro expansion end with the invocation line.
+    const createEndPosition = (line: number, character: number): Position => {
+        if (currentExpansion) return currentExpansion.end;
+        return getPhysicalPosition(line, getSourceColumn(character)!);
+    }
+
+    // Only text substituted from the invocation's arguments can be referenced at the invocation.
+    const isReferenceable = (index: number): boolean =>
+        !currentExpansion || getSourceColumn(index) !== undefined;
+
     const addReferences = (
         line: number,
         text: string,
@@ -265,24 +510,57 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
         scope: Scope,
         callingEntity?: SymbolTableEntity
     ) => {
-        for (const parsedNames of parseQualifiedNames(text, offset)) {
+        addParsedReferences(line, parseQualifiedNames(text, offset, features), scope, callingEntity);
+    }
+
+    /**
+     * Starts a new cheap local region at a boundary, such as a normal label or the start or end of
+     * a scope. The cheap local labels of the previous region aren't visible in it.
+     */
+    const startCheapLocalRegion = (line: number, owner?: SymbolTableEntity) => {
+        const start = createEndPosition(line, 0);
+        cheapLocalScope.range.end = start;
+        cheapLocalScope = new Scope(
+            document.uri,
+            ScopeKind.CheapLocal,
+            owner ? `<cheap locals of ${owner.name}>` : '<cheap locals>',
+            Range.create(start, start),
+            currentScope
+        );
+        if (!repeatedPass) symbolTable.cheapLocalRegions.push({ owner, scope: cheapLocalScope });
+    }
+
+    const addParsedReferences = (
+        line: number,
+        allParsedNames: ParsedQualifiedName[][],
+        scope: Scope,
+        callingEntity?: SymbolTableEntity
+    ) => {
+        for (const parsedNames of allParsedNames) {
             for (let i = 0; i < parsedNames.length; i++) {
                 const name = parsedNames[i].text;
                 const index = parsedNames[i].index;
-                symbolTable.addReference(new ReferenceInfo(
+                const reference = new ReferenceInfo(
                     document.uri,
                     name,
                     parsedNames.slice(0, i).map(value => value.text),
                     i === parsedNames.length - 1 ? parsedNames[i].context : `scope`,
-                    Range.create(
+                    createRange(
                         line,
                         index,
                         line,
                         index + name.length
                     ),
-                    scope,
-                    callingEntity
-                ));
+                    parsedNames.length === 1 && isCheapLocal(name) ? cheapLocalScope : scope,
+                    callingEntity,
+                    parsedNames[i].node
+                );
+                if (repeatStack.length > 0 || repeatedPass) repeatReferences.add(reference);
+                if (isReferenceable(index) && !repeatedPass) {
+                    symbolTable.addReference(reference);
+                } else if (i === parsedNames.length - 1) {
+                    expansionReferences.set(parsedNames[i].node, reference);
+                }
             }
         }
     }
@@ -294,12 +572,13 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
         offset: number,
         scope: Scope
     ) => {
+        if (!isReferenceable(offset) || repeatedPass) return;
         symbolTable.addReference(new ReferenceInfo(
             document.uri,
             text,
             [],
             context,
-            Range.create(
+            createRange(
                 line,
                 offset,
                 line,
@@ -311,13 +590,11 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
 
     const addAnonymousLabelRefs = (
         line: number,
-        text: string,
+        tokens: Token[],
     ) => {
-        let match;
-        const anonRefRegex = /:([-+<>]+)/g
-        while ((match = anonRefRegex.exec(text)) !== null) {
-            const refText = match[0];
-            const offset = getAnonLabelRefOffsetFromPreviousLabel(refText);
+        for (const token of tokens) {
+            if (token.kind !== TokenKind.AnonLabelRef) continue;
+            const offset = getAnonLabelRefOffsetFromPreviousLabel(token.text);
 
             let targetIndex = nextAnonLabelIndex - 1 + offset
 
@@ -325,196 +602,705 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
                 symbolTable.anonymousLabelReferences.set(targetIndex, []);
             }
             symbolTable.anonymousLabelReferences.get(targetIndex)?.push(
-                Range.create(
+                createRange(
                     line,
-                    match.index,
+                    token.index,
                     line,
-                    match.index + match[0].length
+                    tokenEnd(token)
                 ),
             );
         }
     }
 
-    const maybeHandleConstantAssignment = (line: number, text: string): boolean => {
-        const regex = /^\s*(?<name>[a-zA-Z_@.][a-zA-Z0-9_]*)\s*(?:=|:=)/;
-        const match = text.match(regex);
-        if (!match || !match.groups) return false;
-        const { name } = match.groups;
-        const nameIndex = text.indexOf(name);
-        const definition: Range = Range.create(
+    /**
+     * Parses the value of a definition and adds references for the names it uses.
+     * @returns The value expression, or undefined if it isn't a single well-formed expression.
+     */
+    const parseValue = (line: number, text: string, valueTokens: Token[]): ExpressionNode | undefined => {
+        if (valueTokens.length === 0) return undefined;
+        const value = parseExpression(valueTokens);
+        if (value) {
+            addParsedReferences(line, getQualifiedNamesOfExpression(value), currentScope);
+        } else {
+            addReferences(line, text.slice(valueTokens[0].index), valueTokens[0].index, currentScope);
+        }
+        return value;
+    }
+
+    /**
+     * Values defined in a .repeat block may depend on the repetition, and values defined by a macro
+     * expansion on its `.local` names, which only exist while it is scanned. So they are evaluated
+     * while they are scanned where possible.
+     */
+    const evaluateScannedValue = (value: ExpressionNode | undefined): ExpressionNode | undefined => {
+        if (!value || (repeatStack.length === 0 && !repeatedPass && !currentExpansion)) return value;
+        const result = evaluateExpression(value, document.uri, settings.implicitImports, scanContext);
+        return result === undefined ? value : { kind: 'number', value: result, start: value.start, end: value.end };
+    }
+
+    const maybeHandleConstantAssignment = (line: number, text: string, tokens: Token[]): boolean => {
+        const [nameToken, opToken] = tokens;
+        if (!nameToken || !opToken) return false;
+        if (![TokenKind.Identifier, TokenKind.CheapLocal, TokenKind.Directive].includes(nameToken.kind)) {
+            return false;
+        }
+        if (opToken.kind !== TokenKind.Operator || !['=', ':='].includes(opToken.text)) return false;
+        const name = nameToken.text;
+        const nameIndex = nameToken.index;
+        const definition: Range = createRange(
             line,
             nameIndex,
             line,
             nameIndex + name.length
         )
-        addReferences(line, text, 0, currentScope);
-        currentScope.addSymbol(
+        const scope = isCheapLocal(name) ? cheapLocalScope : currentScope;
+        addSingleReference('symbol', line, name, nameIndex, scope);
+        const symbol = scope.addSymbol(
             name,
             definition,
             SymbolKind.Constant,
-        ); 
+        );
+        symbol.value = evaluateScannedValue(parseValue(line, text, tokens.slice(2)));
+        if (scope === currentScope) startCheapLocalRegion(line, symbol);
         return true;
     }
 
-    const maybeHandleVariableAssignment = (line: number, text: string): boolean => {
-        const regex = /^\s*(?<name>[a-zA-Z_@.][a-zA-Z0-9_]*)\s*\.set\s*(?<value>[^;]*?)(?:\s*;.*)?$/;
-        const match = text.match(regex);
-        if (!match || !match.groups) return false;
-        const { name, value } = match.groups;
-        const nameIndex = text.indexOf(name);
-        const definition: Range = Range.create(
+    const maybeHandleVariableAssignment = (line: number, text: string, tokens: Token[]): boolean => {
+        const [nameToken, setToken] = tokens;
+        if (!nameToken || !setToken) return false;
+        if (![TokenKind.Identifier, TokenKind.CheapLocal, TokenKind.Directive].includes(nameToken.kind)) {
+            return false;
+        }
+        if (setToken.kind !== TokenKind.Directive || setToken.text.toLowerCase() !== '.set') return false;
+        const name = nameToken.text;
+        const nameIndex = nameToken.index;
+        const definition: Range = createRange(
             line,
             nameIndex,
             line,
             nameIndex + name.length
         )
 
-        addReferences(line, text, 0, currentScope);
-        currentScope.addSymbol(
+        const scope = isCheapLocal(name) ? cheapLocalScope : currentScope;
+        addSingleReference('symbol', line, name, nameIndex, scope);
+        // The value refers to the previous definition.
+        const value = evaluateScannedValue(parseValue(line, text, tokens.slice(2)));
+        const symbol = scope.addSymbol(
             name,
             definition,
             SymbolKind.Variable,
             currentSegment
         );
+        symbol.value = value;
+        if (scope === currentScope) startCheapLocalRegion(line, symbol);
         return true;
     }
 
-    const maybeHandleMacroContent = (line: number, text: string): boolean => {
-        if (!currentMacro) return false;
+    /**
+     * Looks up what a reference resolves to at the current point of the scan: definitions earlier
+     * in this file, then the other files of the translation unit, then the defines of the file's
+     * link target.
+     */
+    const findScannedDefinition = (ref: ReferenceInfo): SymbolTableEntity | undefined => {
+        noteLookup(ref.name, ...ref.qualifiers);
+        const entity = ref.scope.findDefinitionOrImport(ref.name, ref.qualifiers, ref.context);
+        if (entity) return entity;
+
+        for (const uri of [...symbolTable.includedFiles, ...includesGraph.getTranslationUnit(document.uri)]) {
+            if (uri === document.uri) continue;
+            const found = symbolTables.get(uri)?.getRootScope()
+                .findDefinitionOrImport(ref.name, ref.qualifiers, ref.context);
+            if (found) return found;
+        }
+        return defineScope?.findDefinition(ref.name, ref.qualifiers, ref.context);
+    }
 
-        const firstWord = text.trim().split(' ')[0];
-        if (!firstWord) return false;
+    // Names in this document aren't in `symbolTables` yet, so resolve them against the table being
+    // built. The last `.set` before the reference is the definition in effect.
+    const resolveScannedName: NameResolver = (node, uri) => {
+        if (uri !== document.uri) return undefined;
+        const ref = symbolTable.getReferenceForNode(node) ?? expansionReferences.get(node);
+        let entity = ref && findScannedDefinition(ref);
+        if (entity instanceof Import) {
+            entity = resolveImport(entity.name, document.uri, symbolTables, includesGraph);
+        }
+        if (!ref || !entity) return undefined;
+        if (!(entity instanceof Symbol)) return ref.context === 'sizeof' ? entity : undefined;
+        if (entity.uri !== document.uri || !entity.scope) return entity;
+
+        // References in .repeat blocks are evaluated as they are scanned, when the last
+        // definition is the one in effect.
+        const definitions = entity.scope.getSymbolDefinitions(entity.name);
+        if (repeatReferences.has(ref)) return definitions[definitions.length - 1] ?? entity;
+
+        let inEffect = entity;
+        for (const definition of definitions) {
+            if (definition.definition.start.line < ref.location.start.line) inEffect = definition;
+        }
+        return inEffect;
+    }
+
+    // Like ca65, only definitions before this point count.
+    const isScannedDefined = (node: NameNode, uri: string): boolean | undefined => {
+        if (uri !== document.uri) return undefined;
+        const ref = symbolTable.getReferenceForNode(node) ?? expansionReferences.get(node);
+        if (!ref) return undefined;
+        const entity = findScannedDefinition(ref);
+        return entity !== undefined && !(entity instanceof Import);
+    }
+
+    const scanContext: ScanContext = {
+        resolveName: resolveScannedName,
+        isDefined: isScannedDefined,
+        isMnemonic: name => getMnemonicData(currentCpu)[name.toUpperCase()] !== undefined,
+    };
+
+    /**
+     * Evaluates the condition of a conditional assembly directive as far as it is known while
+     * scanning, adding references for the names it uses.
+     * @returns Whether the condition holds, or undefined if it can't be evaluated.
+     */
+    const evaluateCondition = (
+        cmd: string,
+        line: number,
+        text: string,
+        argTokens: Token[]
+    ): boolean | undefined => {
+        switch (cmd) {
+            case '.else':
+                return true;
+            case '.ifblank':
+                return argTokens.length === 0;
+            case '.ifnblank':
+                return argTokens.length > 0;
+        }
+
+        const condition = parseValue(line, text, argTokens);
+        if (!condition) return undefined;
+
+        switch (cmd) {
+            case '.if':
+            case '.elseif': {
+                const value = evaluateExpression(condition, document.uri, settings.implicitImports, scanContext);
+                return value === undefined ? undefined : value !== 0;
+            }
+            case '.ifconst':
+                return evaluateExpression(condition, document.uri, settings.implicitImports, scanContext) !== undefined
+                    ? true : undefined;
+            case '.ifdef':
+            case '.ifndef': {
+                const isDefined = condition.kind === 'name' ? isScannedDefined(condition, document.uri) : undefined;
+                if (isDefined === undefined) return undefined;
+                return cmd === '.ifdef' ? isDefined : !isDefined;
+            }
+        }
+        // .ifref/.ifnref depend on the whole file, and the CPU tests on the CPU in effect.
+        return undefined;
+    }
+
+    const isInactive = (): boolean => {
+        const frame = conditionalStack[conditionalStack.length - 1];
+        if (!frame) return false;
+        return frame.outerInactive || frame.block.branches[frame.block.branches.length - 1].active === false;
+    }
+
+    const maybeHandleConditional = (line: number, text: string, tokens: Token[]): boolean => {
+        if (currentMacro) return false;
+        const command = tokens[0];
+        if (command?.kind !== TokenKind.Directive) return false;
+        const cmd = command.text.toLowerCase();
+
+        const wasInactive = isInactive();
+        const position = createEndPosition(line, command.index);
+
+        if (cmd.startsWith('.if')) {
+            const block: ConditionalBlock = {
+                range: Range.create(position, position),
+                branches: []
+            };
+            if (!wasInactive && !currentExpansion && !repeatedPass) symbolTable.conditionalBlocks.push(block);
+            conditionalStack.push({ block, outerInactive: wasInactive, taken: false });
+        } else if (!['.elseif', '.else', '.endif'].includes(cmd)) {
+            return false;
+        }
+
+        const frame = conditionalStack[conditionalStack.length - 1];
+        if (!frame) return true;
+        const branches = frame.block.branches;
+        const previousBranch = branches[branches.length - 1];
+        if (previousBranch) previousBranch.range.end = position;
+
+        if (cmd === '.endif') {
+            frame.block.range.end = createEndPosition(line, tokenEnd(command));
+            conditionalStack.pop();
+        } else {
+            let active: boolean | undefined = false;
+            if (!frame.outerInactive && frame.taken !== true) {
+                const condition = evaluateCondition(cmd, line, text, tokens.slice(1));
+                // A later branch is only known to be assembled if all earlier ones are known not to be.
+                active = frame.taken === false || condition === false ? condition : undefined;
+            }
+            if (active !== false) frame.taken = active;
+            branches.push({ range: Range.create(position, position), active });
+        }
+
+        // Conditions in .repeat blocks may hold on some repetitions and not on others.
+        if (currentExpansion || repeatedPass || repeatStack.length > 0) return true;
+        const nowInactive = isInactive();
+        if (!wasInactive && nowInactive) {
+            inactiveStart = getPhysicalPosition(line, text.length).line + 1;
+        } else if (wasInactive && !nowInactive && inactiveStart !== undefined) {
+            if (inactiveStart < position.line) {
+                symbolTable.inactiveRanges.push(Range.create(inactiveStart, 0, position.line, 0));
+            }
+            inactiveStart = undefined;
+        }
+        return true;
+    }
+
+    const findScannedMacro = (name: string): Macro | undefined => {
+        noteLookup(name);
+        let macro = symbolTable.getMacro(name);
+        if (!macro) {
+            for (const uri of [...symbolTable.includedFiles, ...includesGraph.getTranslationUnit(document.uri)]) {
+                if (uri === document.uri) continue;
+                macro = symbolTables.get(uri)?.getMacro(name);
+                if (macro) break;
+            }
+        }
+        return macro?.kind === MacroKind.Macro ? macro : undefined;
+    }
+
+    /**
+     * Scans the lines a macro invocation expands to in place of the invocation line.
+     */
+    const expandInvocation = (line: number, text: string, command: Token, macro: Macro, argTokens: Token[]) => {
+        const outerExpansion = currentExpansion;
+        const depth = (outerExpansion?.depth ?? 0) + 1;
+        if (depth > MAX_MACRO_EXPANSION_DEPTH) return;
+
+        const conditionalDepth = conditionalStack.length;
+        const expansion = expandMacro(macro, argTokens, text, features);
+        // The cheap local regions the expansion defines names in, with the definitions of its
+        // `.local` names they had before it
+        const regions: Map<Scope, Set<Symbol>> = new Map([[
+            cheapLocalScope,
+            new Set(expansion.localNames.flatMap(name => cheapLocalScope.getSymbolDefinitions(name)))
+        ]]);
+        const end = createEndPosition(line, text.replace(/\s+$/, '').length);
+        const nameRange = outerExpansion?.nameRange ?? createRange(line, command.index, line, tokenEnd(command));
+        const lineColumns = expansion.lines.map(expandedLine =>
+            expandedLine.columns.map(column => column === undefined ? undefined : getSourceColumn(column))
+        );
+        for (const [i, expandedLine] of expansion.lines.entries()) {
+            currentExpansion = { end, nameRange, columns: lineColumns[i], depth };
+
+            const tokens = stripComment(tokenizeLine(expandedLine.text, features));
+            const firstWord = tokens[0]?.text.toLowerCase();
+            if (firstWord === '.exitmacro' || firstWord === '.exitmac') {
+                if (!isInactive()) break;
+            }
+            scanLine(line, expandedLine.text, tokens);
+            if (!regions.has(cheapLocalScope)) regions.set(cheapLocalScope, new Set());
+        }
+
+        // Conditionals left open by .exitmacro end with the expansion, and .local symbols aren't
+        // visible outside of it.
+        conditionalStack.length = conditionalDepth;
+        for (const [region, earlierDefinitions] of regions) {
+            for (const name of expansion.localNames) {
+                region.removeSymbolDefinitions(name, definition => !earlierDefinitions.has(definition));
+            }
+        }
+        currentExpansion = outerExpansion;
+    }
+
+    /**
+     * Scans the further repetitions of a .repeat block once its end is reached.
+     */
+    const repeatBlock = (frame: RepeatFrame) => {
+        const outerPass = repeatedPass;
+        const outerExpansion = currentExpansion;
+        const outerPositions = continuedLinePositions;
+        const outerScope = currentScope;
+        // Open blocks recorded these lines already.
+        const outerFrames = repeatStack.splice(0);
+
+        repeatedPass = true;
+        const count = Math.min(frame.count ?? 1, MAX_REPEAT_COUNT);
+        for (let i = 1; i < count; i++) {
+            currentScope = frame.scope;
+            if (frame.counter?.value?.kind === 'number') {
+                frame.counter.value = { ...frame.counter.value, value: i };
+            }
+            for (const recorded of frame.lines) {
+                currentExpansion = recorded.expansion;
+                continuedLinePositions = recorded.continuedLinePositions;
+                scanLine(recorded.line, recorded.text, recorded.tokens);
+            }
+        }
+
+        // The counter only has a value while the block is scanned.
+        if (frame.counter) frame.counter.value = undefined;
+        repeatedPass = outerPass;
+        currentExpansion = outerExpansion;
+        continuedLinePositions = outerPositions;
+        currentScope = outerScope;
+        repeatStack.push(...outerFrames);
+    }
+
+    const addMacroParameters = (macro: Macro, line: number, paramTokens: Token[]) => {
+        macro.params = paramTokens.map(token => token.text);
+        for (const token of paramTokens) {
+            addSingleReference('symbol', line, token.text, token.index, macro.localScope);
+            macro.localScope.addSymbol(
+                token.text,
+                createRange(
+                    line,
+                    token.index,
+                    line,
+                    tokenEnd(token)
+                ),
+                SymbolKind.MacroParameter,
+            );
+        }
+    }
+
+    /**
+     * Adds the references of a line of a macro body to the macro's parameters and `.local` names,
+     * which are replaced wherever they appear. Other names are only known once the macro is
+     * expanded.
+     */
+    const addMacroBodyReferences = (macro: Macro, line: number, tokens: Token[]) => {
+        const isLocalDeclaration = tokens[0]?.kind === TokenKind.Directive && tokens[0].text.toLowerCase() === '.local';
+        for (const token of tokens) {
+            if (token.kind !== TokenKind.Identifier) continue;
+            const isDefined = macro.localScope.getSymbol(token.text) !== undefined;
+            if (isLocalDeclaration || isDefined) {
+                addSingleReference('symbol', line, token.text, token.index, macro.localScope);
+            }
+            if (isLocalDeclaration && !isDefined) {
+                macro.localScope.addSymbol(
+                    token.text,
+                    createRange(
+                        line,
+                        token.index,
+                        line,
+                        tokenEnd(token)
+                    ),
+                    SymbolKind.MacroLocal,
+                );
+            }
+        }
+    }
+
+    const maybeHandleMacroContent = (line: number, text: string, tokens: Token[]): boolean => {
+        if (!currentMacro) return false;
 
-        if (['.endmac', '.endmacro'].includes(firstWord.toLowerCase())) {
-            if (currentMacro.range) currentMacro.range.end = {line, character: text.indexOf('.end')}
+        const firstWord = tokens[0]?.text;
+        if (firstWord && ['.endmac', '.endmacro'].includes(firstWord.toLowerCase())) {
+            if (currentMacro.range) currentMacro.range.end = createEndPosition(line, text.indexOf('.end'));
             currentMacro = null;
+            return true;
         }
+
+        currentMacro.body.push(text.replace(/\r?\n$/, ''));
+        addMacroBodyReferences(currentMacro, line, tokens);
         return true;
     }
 
-    const maybeHandleStructUnionContent = (line: number, text: string): boolean => {
-        if (![ScopeKind.Struct, ScopeKind.Union].includes(currentScope.kind)) {
-            return false;
+    const addStructMemberSize = (frame: StructFrame, memberSize: number | undefined) => {
+        if (frame.kind === ScopeKind.Union) {
+            frame.size = frame.size !== undefined && memberSize !== undefined
+                ? Math.max(frame.size, memberSize)
+                : undefined;
+            return;
         }
+        frame.offset = frame.offset !== undefined && memberSize !== undefined ? frame.offset + memberSize : undefined;
+        frame.size = frame.size !== undefined && memberSize !== undefined ? frame.size + memberSize : undefined;
+    }
 
-        const {label, command, args} = parseLine(text);
+    /**
+     * Evaluates the optional multiplier after a storage allocator in a struct, adding references
+     * for the names it uses.
+     */
+    const evaluateStructMultiplier = (line: number, text: string, multiplierTokens: Token[]): number | undefined => {
+        if (multiplierTokens[0]?.kind === TokenKind.Operator && multiplierTokens[0].text === ',') {
+            multiplierTokens = multiplierTokens.slice(1);
+        }
+        if (multiplierTokens.length === 0) return 1;
+        const multiplier = parseValue(line, text, multiplierTokens);
+        return multiplier && evaluateExpression(multiplier, document.uri, settings.implicitImports, scanContext);
+    }
+
+    /**
+     * Adds the references of a `.tag` operand.
+     * @returns The size of the tagged struct, or undefined if it isn't known.
+     */
+    const evaluateTagSize = (line: number, text: string, tagTokens: Token[]): number | undefined => {
+        const comma = tagTokens.findIndex(token => token.kind === TokenKind.Operator && token.text === ',');
+        const nameTokens = comma < 0 ? tagTokens : tagTokens.slice(0, comma);
+        const name = parseExpression(nameTokens);
+        if (name?.kind !== 'name') {
+            if (tagTokens.length > 0) addReferences(line, text.slice(tagTokens[0].index), tagTokens[0].index, currentScope);
+            return undefined;
+        }
+
+        const parts = name.parts.map(part => ({ ...part, context: 'scope' as const, node: name }));
+        addParsedReferences(line, [parts], currentScope);
+        const last = parts[parts.length - 1];
+        const struct = findScannedDefinition(new ReferenceInfo(
+            document.uri,
+            last.text,
+            parts.slice(0, -1).map(part => part.text),
+            'scope',
+            createRange(line, last.index, line, last.index + last.text.length),
+            currentScope
+        ));
+        const count = evaluateStructMultiplier(line, text, tagTokens.slice(nameTokens.length));
+        return struct instanceof Scope && struct.size !== undefined && count !== undefined
+            ? struct.size * count
+            : undefined;
+    }
+
+    const maybeHandleStructUnionContent = (line: number, text: string, tokens: Token[]): boolean => {
+        const frame = structStack[structStack.length - 1];
+        if (!frame) return false;
+
+        const {command} = parseLine(text, tokens);
 
         const firstWord = command?.text;
         if (!firstWord) return false;
         const cmd = firstWord.toLowerCase();
 
-        if ((currentScope.kind === ScopeKind.Struct && cmd === '.endstruct')
-            || (currentScope.kind === ScopeKind.Union && cmd === '.endunion')) {
-            if (currentScope.range) currentScope.range.end = {line, character: text.indexOf('.end')}
-            if (currentScope.scope) currentScope = currentScope.scope;
+        if ((frame.kind === ScopeKind.Struct && cmd === '.endstruct')
+            || (frame.kind === ScopeKind.Union && cmd === '.endunion')) {
+            structStack.pop();
+            const end = createEndPosition(line, text.indexOf('.end'));
+            if (frame.scope) {
+                if (frame.scope.range) frame.scope.range.end = end;
+                frame.scope.size = frame.size;
+                if (frame.scope.scope) currentScope = frame.scope.scope;
+            } else if (frame.start) {
+                symbolTable.anonymousStructRanges.push(Range.create(frame.start, end));
+            }
+            const outerFrame = structStack[structStack.length - 1];
+            if (outerFrame) addStructMemberSize(outerFrame, frame.size);
+            else startCheapLocalRegion(line);
             return true;
         }
 
-        if (cmd === '.struct' || cmd === '.union') {
-            const argsIndex = args?.index || command.index + command.text.length;
-            currentLabel = undefined;
-            let kind: ScopeKind = ScopeKind.Struct;
-            if (cmd === '.union') {
-                kind = ScopeKind.Union;
-            }
-            let displayName;
-            if (args) {
-                addSingleReference('scope', line, args.text, argsIndex, currentScope);
-                displayName = args.text
-            } else {
-                displayName = `<anon line ${line + 1}>`
-            }
-            currentScope = currentScope.addChildScope(
-                displayName,
-                Range.create(
+        // [name] storage-allocator [multiplier]
+        const memberName = command.kind === TokenKind.Directive ? undefined : command;
+        const allocator = memberName ? tokens[tokens.indexOf(command) + 1] : command;
+        const allocatorArgs = allocator ? tokens.slice(tokens.indexOf(allocator) + 1) : [];
+        const allocatorName = allocator?.kind === TokenKind.Directive ? allocator.text.toLowerCase() : undefined;
+
+        if (memberName) {
+            addSingleReference('symbol', line, memberName.text, memberName.index, currentScope);
+            const member = currentScope.addSymbol(
+                memberName.text,
+                createRange(
                     line,
-                    argsIndex,
+                    memberName.index,
                     line,
-                    argsIndex + displayName.length
+                    tokenEnd(memberName)
                 ),
-                kind,
-            )
-            return true;
+                SymbolKind.StructMember,
+            );
+            if (frame.offset !== undefined) {
+                member.value = {
+                    kind: 'number',
+                    value: frame.offset,
+                    start: memberName.index,
+                    end: tokenEnd(memberName)
+                };
+            }
         }
 
-        const name = firstWord;
-        const nameIndex = command.index;
-        const definition: Range = Range.create(
-            line,
-            nameIndex,
-            line,
-            nameIndex + name.length
-        )
-
-        if (args && args.text.toLowerCase().startsWith(`.tag`)) {
-            // Struct member is at the command position
-            addSingleReference('symbol', line, command.text, command.index, currentScope)
-            const argsWithoutTag = args.text.slice(`.tag`.length).trimLeft();
-            const indexOfStructName = args.text.length - argsWithoutTag.length + args.index;
-            const structName = argsWithoutTag.split(/\s+/)[0];
-            if (structName) {
-                addSingleReference('scope', line, structName, indexOfStructName, currentScope)
+        if (allocator && (allocatorName === '.struct' || allocatorName === '.union')) {
+            currentLabel = undefined;
+            const kind = allocatorName === '.union' ? ScopeKind.Union : ScopeKind.Struct;
+            const nameToken = allocatorArgs[0]?.kind === TokenKind.Identifier ? allocatorArgs[0] : undefined;
+            if (nameToken) {
+                // A named struct is a type of its own, with offsets from 0.
+                addSingleReference('scope', line, nameToken.text, nameToken.index, currentScope);
+                currentScope = currentScope.addChildScope(
+                    nameToken.text,
+                    createRange(
+                        line,
+                        nameToken.index,
+                        line,
+                        tokenEnd(nameToken)
+                    ),
+                    kind,
+                );
+                structStack.push({ kind, scope: currentScope, offset: 0, size: 0 });
+            } else {
+                // ca65 adds the members of anonymous structs and unions to the enclosing one, at
+                // the offset of the anonymous block.
+                structStack.push({
+                    kind,
+                    start: createRange(line, allocator.index, line, tokenEnd(allocator)).start,
+                    offset: frame.offset,
+                    size: 0
+                });
             }
-        } else {
-            addReferences(line, text, 0, currentScope);
+            return true;
         }
-        currentScope.addSymbol(
-            firstWord,
-            definition,
-            SymbolKind.StructMember,
-        );
+
+        let memberSize: number | undefined;
+        if (allocatorName === '.tag') {
+            memberSize = evaluateTagSize(line, text, allocatorArgs);
+        } else if (allocatorName && STRUCT_ALLOCATOR_SIZES[allocatorName]) {
+            const count = evaluateStructMultiplier(line, text, allocatorArgs);
+            memberSize = count !== undefined ? STRUCT_ALLOCATOR_SIZES[allocatorName] * count : undefined;
+        } else if (allocatorArgs.length > 0) {
+            addReferences(line, text.slice(allocatorArgs[0].index), allocatorArgs[0].index, currentScope);
+        }
+        addStructMemberSize(frame, memberSize);
         return true;
     }
 
-    const maybeHandleEnumContent = (line: number, text: string): boolean => {
+    const maybeHandleEnumContent = (line: number, text: string, tokens: Token[]): boolean => {
         if (currentScope.kind !== ScopeKind.Enum) {
             return false;
         }
 
-        const {label, command, args} = parseLine(text);
+        const {label, command, args} = parseLine(text, tokens);
 
         const firstWord = command?.text;
         if (!firstWord) return false;
         const cmd = firstWord.toLowerCase();
 
         if (cmd === '.endenum') {
-            if (currentScope.range) currentScope.range.end = {line, character: text.indexOf('.end')}
+            if (currentScope.range) currentScope.range.end = createEndPosition(line, text.indexOf('.end'))
             if (currentScope.scope) currentScope = currentScope.scope;
+            startCheapLocalRegion(line);
             return true;
         }
 
         const name = firstWord;
         const nameIndex = command.index;
-        const definition: Range = Range.create(
+        const definition: Range = createRange(
             line,
             nameIndex,
             line,
             nameIndex + name.length
         )
 
-        addReferences(line, text, 0, currentScope);
-        currentScope.addSymbol(
+        addSingleReference('symbol', line, name, nameIndex, currentScope);
+        const symbol = currentScope.addSymbol(
             firstWord,
             definition,
             SymbolKind.EnumMember,
         );
+
+        // Members without an explicit value continue counting up from the previous member.
+        const assignment = tokens[1];
+        if (assignment?.kind === TokenKind.Operator && assignment.text === '=') {
+            symbol.value = parseValue(line, text, tokens.slice(2));
+        } else {
+            symbol.value = nextEnumValue;
+            addReferences(line, text.slice(nameIndex + name.length), nameIndex + name.length, currentScope);
+        }
+        nextEnumValue = symbol.value && {
+            kind: 'binary',
+            operator: '+',
+            left: symbol.value,
+            right: { kind: 'number', value: 1, start: nameIndex, end: nameIndex + name.length },
+            start: nameIndex,
+            end: nameIndex + name.length
+        };
         return true;
     }
 
-    const maybeHandleGenericLine = (line: number, text: string): boolean => {
-        const { label, command, args } = parseLine(text);
+    /**
+     * Replaces the `.ident` calls of a line with the identifiers they generate, like ca65 does
+     * when reading the line. References in their arguments are added as they are.
+     * @returns The line with the identifiers in place, or undefined if there is nothing to replace.
+     */
+    const substituteGeneratedNames = (line: number, text: string, tokens: Token[]) => {
+        let generatedText = '';
+        const columns: number[] = [];
+        let copiedTo = 0;
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i];
+            if (token.kind !== TokenKind.Directive || token.text.toLowerCase() !== '.ident') continue;
+
+            let close = i + 1;
+            for (let depth = 0; close < tokens.length; close++) {
+                if (tokens[close].kind !== TokenKind.Operator) continue;
+                if (tokens[close].text === '(') depth++;
+                if (tokens[close].text === ')' && --depth === 0) break;
+            }
+            const call = parseExpression(tokens.slice(i, close + 1));
+            if (call?.kind !== 'call') continue;
+            i = close;
+
+            const name = call.args.length === 1
+                ? evaluateString(call.args[0], document.uri, settings.implicitImports, scanContext)
+                : undefined;
+            const nameTokens = name ? tokenizeLine(name, features) : [];
+            if (nameTokens.length !== 1 || nameTokens[0].text !== name
+                || (nameTokens[0].kind !== TokenKind.Identifier && nameTokens[0].kind !== TokenKind.CheapLocal)) {
+                continue;
+            }
+
+            // The generated identifier replaces the call, so the names of its argument are only
+            // referenced here.
+            addParsedReferences(line, getQualifiedNamesOfExpression(call), currentScope);
+            // The generated identifier spans the whole call.
+            for (; copiedTo < token.index; copiedTo++) {
+                generatedText += text[copiedTo];
+                columns.push(copiedTo);
+            }
+            generatedText += name;
+            copiedTo = call.end;
+            for (let j = 0; j < name.length; j++) {
+                columns.push(j === 0 ? token.index : copiedTo - 1);
+            }
+        }
+        if (columns.length === 0) return undefined;
+
+        for (; copiedTo <= text.length; copiedTo++) {
+            if (copiedTo < text.length) generatedText += text[copiedTo];
+            columns.push(copiedTo);
+        }
+        return {
+            text: generatedText,
+            tokens: stripComment(tokenizeLine(generatedText, features)),
+            columns
+        };
+    }
+
+    const maybeHandleGenericLine = (line: number, text: string, tokens: Token[]): boolean => {
+        const { label, command, args } = parseLine(text, tokens);
         if (label) {
-            if (label.text.startsWith('@')) {
-                // Cheap local labels are currently handled on-demand.
+            if (isCheapLocal(label.text)) {
+                addSingleReference('symbol', line, label.text, label.index, cheapLocalScope);
+                cheapLocalScope.addSymbol(
+                    label.text,
+                    createRange(
+                        line,
+                        label.index,
+                        line,
+                        label.index + label.text.length
+                    ),
+                    SymbolKind.Label,
+                    currentSegment
+                );
+            } else if (label.text.length === 0 && (currentExpansion || repeatedPass)) {
+                // Anonymous labels in macro expansions and repetitions aren't tracked.
             } else if (label.text.length === 0) {
                 symbolTable.anonymousLabelLines.push(line);
-                const indexOfDef = text.indexOf(':');
+                const indexOfDef = label.index;
 
                 if (!symbolTable.anonymousLabelReferences.has(nextAnonLabelIndex)) {
                     symbolTable.anonymousLabelReferences.set(nextAnonLabelIndex, []);
                 }
                 symbolTable.anonymousLabelReferences.get(nextAnonLabelIndex)?.push(
-                    Range.create(
+                    createRange(
                         line, indexOfDef,
                         line, indexOfDef + 1
                     ),
@@ -524,7 +1310,7 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
                 addSingleReference('symbol', line, label.text, label.index, currentScope);
                 currentLabel = currentScope.addSymbol(
                     label.text,
-                    Range.create(
+                    createRange(
                         line,
                         label.index,
                         line,
@@ -534,6 +1320,7 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
                     currentSegment
                 )
                 pendingLabelKindSet = false;
+                startCheapLocalRegion(line, currentLabel);
             }
         }
 
@@ -541,8 +1328,17 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
             const cmd = command.text.toLowerCase();
             const argsText = args?.text || '';
             const argsIndex = args?.index || command.index + command.text.length;
-            if (!cmd.startsWith('.') && !mnemonicData[cmd.toUpperCase()]) {
+            // With ubiquitous_idents, macros may be named like mnemonics and take precedence.
+            const isMnemonic = getMnemonicData(currentCpu)[cmd.toUpperCase()]
+                && !(features.ubiquitousIdents && findScannedMacro(command.text));
+            if (command.kind === TokenKind.Identifier && !isMnemonic) {
                 addSingleReference('macro', line, command.text, command.index, symbolTable.getRootScope());
+
+                const macro = findScannedMacro(command.text);
+                if (macro) {
+                    expandInvocation(line, text, command, macro, tokens.slice(tokens.indexOf(command) + 1));
+                    return true;
+                }
             }
 
             switch (cmd) {
@@ -564,6 +1360,15 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
                             break;
                     }
     
+                    if (kind === ScopeKind.Enum) {
+                        nextEnumValue = {
+                            kind: 'number',
+                            value: 0,
+                            start: command.index,
+                            end: command.index + command.text.length
+                        };
+                    }
+
                     let name = argsText;
                     if (name) {
                         addSingleReference('scope', line, name, argsIndex, currentScope);
@@ -572,34 +1377,37 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
                     }
                     currentScope = currentScope.addChildScope(
                         name,
-                        Range.create(
+                        createRange(
                             line,
                             argsIndex,
                             line,
-                            argsIndex + name.length
+                            argsIndex + argsText.length
                         ),
                         kind,
                         kind === ScopeKind.Proc ? currentSegment : undefined
                     )
+                    if (kind === ScopeKind.Struct || kind === ScopeKind.Union) {
+                        structStack.push({ kind, scope: currentScope, offset: 0, size: 0 });
+                    }
+                    if (kind === ScopeKind.Proc) addRegisterWidthHint(line, text);
+                    startCheapLocalRegion(line, currentScope);
                     return true;
                 }
                 case '.endproc':
                     currentLabel = undefined;
                     if (!currentScope.scope) break;
                     if (currentScope.kind != ScopeKind.Proc) break;
-                    if (currentScope.range) currentScope.range.end = {
-                        line, character: text.indexOf('.end')
-                    }
+                    if (currentScope.range) currentScope.range.end = createEndPosition(line, text.indexOf('.end'))
                     currentScope = currentScope.scope;
+                    startCheapLocalRegion(line);
                     return true;
                 case '.endscope': {
                     currentLabel = undefined;
                     if (!currentScope.scope) break;
                     if (currentScope.kind != ScopeKind.Scope) break;
-                    if (currentScope.range) currentScope.range.end = {
-                        line, character: text.indexOf('.end')
-                    }
+                    if (currentScope.range) currentScope.range.end = createEndPosition(line, text.indexOf('.end'))
                     currentScope = currentScope.scope;
+                    startCheapLocalRegion(line);
                     return true;
                 }
                 case '.macro': case '.mac': {
@@ -607,10 +1415,11 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
                     const name = args?.text.split(/\s+/)[0];
                     if (!name) return true;
                     addSingleReference('macro', line, name, argsIndex, currentScope);
+                    noteLookup(name);
                     if (name && !symbolTable.getMacro(name)) {
                         currentMacro = symbolTable.addMacro(
                             name,
-                            Range.create(
+                            createRange(
                                 line,
                                 argsIndex,
                                 line,
@@ -618,19 +1427,27 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
                             ),
                             MacroKind.Macro,
                         )
+                        addMacroParameters(
+                            currentMacro,
+                            line,
+                            tokens.slice(tokens.indexOf(command) + 2)
+                                .filter(token => token.kind === TokenKind.Identifier)
+                        );
                     }
                     return true;
                 }
                 case '.define': {
                     currentLabel = undefined;
-                    const defMatch = argsText.match(/([a-zA-Z_@.][a-zA-Z0-9_]*)/);
-                    const name = defMatch?.[0];
+                    const nameToken = tokens[tokens.indexOf(command) + 1];
+                    const name = nameToken && [TokenKind.Identifier, TokenKind.CheapLocal, TokenKind.Directive]
+                        .includes(nameToken.kind) ? nameToken.text : undefined;
                     if (!name) return true;
                     addSingleReference('macro', line, name, argsIndex, currentScope);
+                    noteLookup(name);
                     if (name && !symbolTable.getMacro(name)) {
-                        symbolTable.addMacro(
+                        const macro = symbolTable.addMacro(
                             name,
-                            Range.create(
+                            createRange(
                                 line,
                                 argsIndex,
                                 line,
@@ -638,17 +1455,150 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
                             ),
                             MacroKind.Define,
                         )
+
+                        // Parameters are in parentheses right after the name, then comes the body.
+                        let bodyTokens = tokens.slice(tokens.indexOf(nameToken) + 1);
+                        const open = bodyTokens[0];
+                        const close = bodyTokens.findIndex(token => token.text === ')');
+                        if (open?.text === '(' && open.index === tokenEnd(nameToken) && close > 0) {
+                            addMacroParameters(
+                                macro,
+                                line,
+                                bodyTokens.slice(1, close).filter(token => token.kind === TokenKind.Identifier)
+                            );
+                            bodyTokens = bodyTokens.slice(close + 1);
+                        }
+                        addMacroBodyReferences(macro, line, bodyTokens);
+                    }
+                    return true;
+                }
+                case '.segment': {
+                    // .segment "NAME" [: address-size]
+                    const [nameToken, colon, addressSizeToken] = tokens.slice(tokens.indexOf(command) + 1);
+                    if (nameToken?.kind !== TokenKind.String) return true;
+                    const name = nameToken.text.replace(/"/g, '');
+                    const addressSize = colon?.text === ':'
+                        ? SEGMENT_ADDRESS_SIZES[addressSizeToken?.text.toLowerCase() ?? '']
+                        : undefined;
+                    if (addressSize) symbolTable.segmentAddressSizes.set(name, addressSize);
+                    if (name && !currentExpansion) {
+                        symbolTable.segmentReferences.push({
+                            name,
+                            range: createRange(line, nameToken.index + 1, line, nameToken.index + 1 + name.length),
+                        });
                     }
+                    switchSegment(name);
                     return true;
                 }
-                case '.segment':
                 case '.code':
                 case '.data':
                 case '.bss':
                 case '.zeropage':
-                case '.rodata': {
-                    currentSegment = (cmd === '.segment') ? argsText.replace(/"/g, '')
-                        : cmd.slice(1).toUpperCase();
+                case '.rodata':
+                    switchSegment(SEGMENT_DIRECTIVES[cmd]);
+                    return true;
+                case '.setcpu': {
+                    const cpuToken = tokens[tokens.indexOf(command) + 1];
+                    if (cpuToken?.kind === TokenKind.String) switchCpu(line, text, normalizeCpu(cpuToken.text));
+                    return true;
+                }
+                case '.p02':
+                case '.p02x':
+                case '.psc02':
+                case '.pc02':
+                case '.pwc02':
+                case '.p816':
+                    switchCpu(line, text, CPU_DIRECTIVES[cmd]);
+                    return true;
+                case '.a8':
+                case '.a16':
+                    setRegisterWidths(line, text, { accumulator: cmd === '.a8' ? 8 : 16 });
+                    return true;
+                case '.i8':
+                case '.i16':
+                    setRegisterWidths(line, text, { index: cmd === '.i8' ? 8 : 16 });
+                    return true;
+                case '.smart': {
+                    const smartSwitch = tokens[tokens.indexOf(command) + 1]?.text.toLowerCase();
+                    smartMode = smartSwitch !== '-' && smartSwitch !== 'off';
+                    return true;
+                }
+                case '.repeat': {
+                    // .repeat count [, counter]
+                    const argTokens = tokens.slice(tokens.indexOf(command) + 1);
+                    const comma = argTokens[argTokens.length - 2];
+                    const counterToken = comma?.kind === TokenKind.Operator && comma.text === ','
+                        && argTokens[argTokens.length - 1].kind === TokenKind.Identifier
+                        ? argTokens[argTokens.length - 1]
+                        : undefined;
+                    const countValue = parseValue(line, text, counterToken ? argTokens.slice(0, -2) : argTokens);
+                    const count = countValue
+                        && evaluateExpression(countValue, document.uri, settings.implicitImports, scanContext);
+
+                    // Further repetitions don't add the block again.
+                    const name = `<repeat line ${line + 1}>`;
+                    const definition = createRange(line, command.index, line, tokenEnd(command));
+                    currentScope = repeatedPass
+                        ? new Scope(document.uri, ScopeKind.Repeat, name, definition, currentScope)
+                        : currentScope.addChildScope(name, definition, ScopeKind.Repeat);
+
+                    let counter: Symbol | undefined;
+                    if (counterToken) {
+                        addSingleReference('symbol', line, counterToken.text, counterToken.index, currentScope);
+                        counter = currentScope.addSymbol(
+                            counterToken.text,
+                            createRange(
+                                line,
+                                counterToken.index,
+                                line,
+                                tokenEnd(counterToken)
+                            ),
+                            SymbolKind.RepeatCounter,
+                        );
+                        counter.value = {
+                            kind: 'number',
+                            value: 0,
+                            start: counterToken.index,
+                            end: tokenEnd(counterToken)
+                        };
+                    }
+                    repeatStack.push({
+                        scope: currentScope,
+                        counter,
+                        count,
+                        expansionDepth: currentExpansion?.depth ?? 0,
+                        lines: []
+                    });
+                    return true;
+                }
+                case '.endrep':
+                case '.endrepeat': {
+                    const frame = repeatStack.pop();
+                    if (!frame) return true;
+                    // The .endrep line itself was recorded too.
+                    frame.lines.pop();
+                    frame.scope.range.end = createEndPosition(line, command.index);
+                    if (frame.scope.scope) currentScope = frame.scope.scope;
+                    repeatBlock(frame);
+                    return true;
+                }
+                case '.pushcpu':
+                    cpuStack.push(currentCpu);
+                    return true;
+                case '.popcpu': {
+                    const pushed = cpuStack.pop();
+                    if (pushed) switchCpu(line, text, pushed);
+                    return true;
+                }
+                case '.pushseg':
+                    segmentStack.push({ segment: currentSegment, inherited: segmentInherited });
+                    return true;
+                case '.popseg': {
+                    const pushed = segmentStack.pop();
+                    if (pushed) {
+                        currentSegment = pushed.segment;
+                        segmentInherited = pushed.inherited;
+                    }
                     return true;
                 }
                 case '.import':
@@ -667,10 +1617,10 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
                             addressSpecification,
                             assignmentOp,
                             value
-                        } of parseImportExportArgs(args.text, args.index)) {
+                        } of parseImportExportArgs(args.text, args.index, features)) {
                         if (!identifier) continue;
 
-                        const identifierRange = Range.create(
+                        const identifierRange = createRange(
                             line,
                             identifier.index,
                             line,
@@ -679,12 +1629,16 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
 
                         if (isExport && assignmentOp && value) {
                             // Exports may define a constant in the same line
-                            currentScope.addSymbol(
+                            const symbol = currentScope.addSymbol(
                                 identifier.text,
                                 identifierRange,
                                 SymbolKind.Constant
                             )
-                            addReferences(line, value.text, value.index, currentScope);
+                            const valueTokens = tokens.filter(token =>
+                                token.index >= value.index && token.index < value.index + value.text.length
+                            );
+                            symbol.value = parseValue(line, text, valueTokens);
+                            startCheapLocalRegion(line, symbol);
                         }
                         addSingleReference(
                             'symbol',
@@ -716,6 +1670,21 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
                         }
                     }
                     return true;
+                case '.feature':
+                case '.linecont':
+                    applyFeatureDirective(features, tokens.slice(tokens.indexOf(command)));
+                    if (repeatedPass) return true;
+                    symbolTable.featureChanges.push({
+                        line: getPhysicalPosition(line, text.length).line + 1,
+                        features: { ...features }
+                    });
+                    return true;
+                case '.macpack': {
+                    const packageToken = tokens[tokens.indexOf(command) + 1];
+                    const macpackUri = packageToken && getMacpackUri(packageToken.text);
+                    if (macpackUri) symbolTable.includedFiles.push(macpackUri);
+                    return true;
+                }
                 case '.include':
                     const match = argsText.match(/^(['"])(.*)\1$/);
                     if (match) {
@@ -725,14 +1694,22 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
                         if (targetUri) {
                             symbolTable.includedFiles.push(targetUri);
                         }
-                        currentSegment = `segment from ${filename}`;
+
+                        // Continue in the segment the included file ends in.
+                        const includedTable = targetUri && symbolTables.get(targetUri);
+                        if (includedTable) {
+                            for (const [name, addressSize] of includedTable.segmentAddressSizes) {
+                                symbolTable.segmentAddressSizes.set(name, addressSize);
+                            }
+                            if (includedTable.finalSegment) switchSegment(includedTable.finalSegment);
+                        }
                     }
                     return true;
             }
 
             if (currentLabel) {
                 // Consume any un-labeled commands as part of the current label
-                currentLabel.range.end = { line, character: text.length - 1 };
+                currentLabel.range.end = createEndPosition(line, text.length - 1);
                 // Infer the type of label by the first command
                 if (!pendingLabelKindSet) {
                     switch (cmd) {
@@ -781,6 +1758,16 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
                         callingEntity = currentScope;
                     }
                 }
+
+                const argTokens = tokens.slice(tokens.indexOf(command) + 1);
+                if (isMnemonic && argTokens[0]?.text === '#') {
+                    const operand = parseExpression(argTokens.slice(1));
+                    if (operand) {
+                        addParsedReferences(line, getQualifiedNamesOfExpression(operand), currentScope, callingEntity);
+                        handleImmediateOperand(line, text, cmd, argTokens[0], operand);
+                        return true;
+                    }
+                }
                 addReferences(line, args.text, args.index, currentScope, callingEntity);
             }
         }
@@ -788,55 +1775,174 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
         return true;
     }
 
-    let hasLineContinuation = false;
-    let isPreviousLineContinued = false;
-    for (let lineNumber = 0; lineNumber < document.lineCount; lineNumber++) {
-        isPreviousLineContinued = hasLineContinuation;
-        hasLineContinuation = false;
+    const scanLine = (line: number, text: string, tokens: Token[]) => {
+        const expansionDepth = currentExpansion?.depth ?? 0;
+        for (const frame of repeatStack) {
+            if (frame.expansionDepth !== expansionDepth) continue;
+            frame.lines.push({ line, text, tokens, expansion: currentExpansion, continuedLinePositions });
+        }
 
-        let text = document.getText(
-            Range.create(
-                lineNumber, 0,
-                lineNumber + 1, 0
-            )
-        );
+        if (maybeHandleConditional(line, text, tokens)) return;
+        // Lines excluded by a false condition aren't assembled, so nothing in them is defined.
+        if (isInactive()) return;
 
-        let hasComment = false;
-        if (text.includes(';')) {
-            hasComment = true;
-            text = text.slice(0, text.indexOf(`;`));
-        }
+        // Anonymous labels in macro expansions and repetitions aren't tracked.
+        if (!currentExpansion && !repeatedPass) addAnonymousLabelRefs(line, tokens);
 
-        if (!hasComment && text.trimEnd().endsWith('\\')) {
-            hasLineContinuation = true;
+        // Order matters
+        if (maybeHandleMacroContent(line, text, tokens)) return;
+
+        const outerColumns = generatedNameColumns;
+        generatedNameColumns = undefined;
+        const generated = substituteGeneratedNames(line, text, tokens);
+        generatedNameColumns = generated?.columns;
+        scanStatement(line, generated?.text ?? text, generated?.tokens ?? tokens);
+        generatedNameColumns = outerColumns;
+    }
+
+    const scanStatement = (line: number, text: string, tokens: Token[]) => {
+        if (maybeHandleStructUnionContent(line, text, tokens)) return;
+        if (maybeHandleEnumContent(line, text, tokens)) return;
+
+        if (maybeHandleConstantAssignment(line, text, tokens)) return;
+        if (maybeHandleVariableAssignment(line, text, tokens)) return;
+        if (maybeHandleGenericLine(line, text, tokens)) return;
+        // Empty line?
+    }
+
+    let inCComment = false;
+
+    const isAtTopLevel = (): boolean => currentScope === symbolTable.getRootScope()
+        && !currentMacro
+        && structStack.length === 0
+        && conditionalStack.length === 0
+        && inactiveStart === undefined
+        && repeatStack.length === 0
+        && !inCComment;
+
+    const createCheckpoint = (line: number): ScanCheckpoint => ({
+        line,
+        segment: currentSegment,
+        segmentInherited,
+        segmentStack: [...segmentStack],
+        segmentAddressSizes: new Map(symbolTable.segmentAddressSizes),
+        features: { ...features },
+        cpu: currentCpu,
+        cpuStack: [...cpuStack],
+        registerWidths,
+        smartMode,
+        label: currentLabel,
+        labelEnd: currentLabel?.range.end,
+        labelKind: currentLabel?.kind,
+        labelKindSet: pendingLabelKindSet,
+        anonymousLabelIndex: nextAnonLabelIndex,
+        cheapLocalScope,
+        lengths: symbolTable.getScannedListLengths(),
+        lookups: new Set(),
+    });
+
+    const restoreCheckpoint = (checkpoint: ScanCheckpoint) => {
+        currentSegment = checkpoint.segment;
+        segmentInherited = checkpoint.segmentInherited;
+        segmentStack.splice(0, segmentStack.length, ...checkpoint.segmentStack);
+        symbolTable.segmentAddressSizes = new Map(checkpoint.segmentAddressSizes);
+        Object.assign(features, checkpoint.features);
+        currentCpu = checkpoint.cpu;
+        cpuStack.splice(0, cpuStack.length, ...checkpoint.cpuStack);
+        registerWidths = checkpoint.registerWidths;
+        smartMode = checkpoint.smartMode;
+        currentLabel = checkpoint.label;
+        if (currentLabel) {
+            currentLabel.range.end = checkpoint.labelEnd ?? currentLabel.range.end;
+            currentLabel.kind = checkpoint.labelKind ?? currentLabel.kind;
         }
+        pendingLabelKindSet = checkpoint.labelKindSet;
+        nextAnonLabelIndex = checkpoint.anonymousLabelIndex;
+        cheapLocalScope = checkpoint.cheapLocalScope;
+    }
 
-        if (isPreviousLineContinued) {
-            // Handle line continuations by simply adding all references, since these are generally
-            // used for long arithmetic expressions.
-            // TODO: Handle line continuations properly. We will probably need to re-write the
-            // parser using tree-sitter instead of our current fragile hand-rolled one.
-            addReferences(lineNumber, text, 0, currentScope);
-            if (currentLabel) {
-                currentLabel.range.end = { line: lineNumber, character: text.length - 1 };
+    if (start) restoreCheckpoint(start);
+    for (let lineNumber = start?.line ?? 0; lineNumber < document.lineCount; lineNumber++) {
+        if (isAtTopLevel()) {
+            let checkpoint = createCheckpoint(lineNumber);
+            const next = onCheckpoint ? onCheckpoint(checkpoint) : checkpoint;
+            if (!next) {
+                performanceMonitor.stop("scanDocument");
+                return false;
+            }
+            if (next !== checkpoint) {
+                restoreCheckpoint(next);
+                lineNumber = next.line;
+                checkpoint = createCheckpoint(lineNumber);
             }
-            continue;
+            symbolTable.checkpoints.push(checkpoint);
+            lookups = checkpoint.lookups;
         }
 
-        addAnonymousLabelRefs(lineNumber, text);
+        // Join lines ending in `\` into one logical line, if line continuations are enabled.
+        const firstLine = lineNumber;
+        let text = '';
+        let tokens: Token[] = [];
+        const positions: Position[] = [];
+        while (true) {
+            let physicalText = document.getText(
+                Range.create(
+                    lineNumber, 0,
+                    lineNumber + 1, 0
+                )
+            );
 
-        // Order matters
-        if (maybeHandleMacroContent(lineNumber, text)) continue;
-        if (maybeHandleStructUnionContent(lineNumber, text)) continue;
-        if (maybeHandleEnumContent(lineNumber, text)) continue;
+            if (features.cComments || inCComment) {
+                if (inCComment) symbolTable.cCommentLines.add(lineNumber);
+                ({ text: physicalText, inComment: inCComment } = maskCComments(physicalText, inCComment));
+            }
 
-        if (maybeHandleConstantAssignment(lineNumber, text)) continue;
-        if (maybeHandleVariableAssignment(lineNumber, text)) continue;
-        if (maybeHandleGenericLine(lineNumber, text)) continue;
-        // Empty line?
+            const allTokens = tokenizeLine(physicalText, features);
+            tokens = stripComment(allTokens);
+            if (tokens.length < allTokens.length) {
+                physicalText = physicalText.slice(0, allTokens[allTokens.length - 1].index);
+            }
+
+            const lastToken = allTokens[allTokens.length - 1];
+            const isContinued = features.lineContinuations
+                && lastToken?.kind === TokenKind.Operator && lastToken.text === '\\'
+                && lineNumber + 1 < document.lineCount;
+            if (isContinued) {
+                physicalText = physicalText.slice(0, lastToken.index) + ' ';
+            }
+            if (isContinued || lineNumber > firstLine) {
+                for (let i = 0; i < physicalText.length; i++) {
+                    positions.push({ line: lineNumber, character: i });
+                }
+            }
+            text += physicalText;
+
+            if (!isContinued) break;
+            lineNumber++;
+        }
+
+        if (lineNumber > firstLine) {
+            continuedLinePositions = positions;
+            tokens = stripComment(tokenizeLine(text, features));
+        }
+        scanLine(firstLine, text, tokens);
+        continuedLinePositions = undefined;
+    }
+
+    // Close any open conditionals and scopes at EOF
+    if (inactiveStart !== undefined && inactiveStart < document.lineCount) {
+        symbolTable.inactiveRanges.push(Range.create(inactiveStart, 0, document.lineCount, 0));
+    }
+    for (const { block } of conditionalStack) {
+        block.range.end = { line: document.lineCount, character: 0 };
+        const lastBranch = block.branches[block.branches.length - 1];
+        if (lastBranch) lastBranch.range.end = block.range.end;
     }
 
-    // Close any open scopes at EOF
+    cheapLocalScope.range.end = { line: document.lineCount, character: 0 };
+
+    symbolTable.finalSegment = segmentInherited ? undefined : currentSegment.name;
+
     let openScope: Scope | null = currentScope;
     while (openScope != null) {
         openScope.range.end = {
@@ -846,5 +1952,5 @@ export async function scanDocument(document: TextDocument): Promise<SymbolTable>
     }
     performanceMonitor.stop("scanDocument");
     // symbolTable.dump();
-    return symbolTable;
+    return true;
 }
@@ -3,32 +3,47 @@ import {
     DocumentSymbolParams,
     DocumentSymbol,
 } from 'vscode-languageserver/node';
-import { initializationGate, symbolTables } from './server';
-import { Scope } from './symbolTable';
+import { initializationGate, symbolTables } from './workspace';
+import { Scope, Segment, Symbol, SymbolTableEntity } from './symbolTable';
 import { getLSPSymbolKind } from './symbolResolver';
 
 export function initializeDocumentSymbolProvider(connection: _Connection) {
     connection.onDocumentSymbol(async (params: DocumentSymbolParams): Promise<DocumentSymbol[] | undefined> => {
-        await initializationGate.isInitialized;
+        await initializationGate.isDocumentScanned(params.textDocument.uri);
 
         const symbolTable = symbolTables.get(params.textDocument.uri);
         if (!symbolTable) return undefined;
 
-        // Recursive function to convert our Symbol/Scope hierarchy to DocumentSymbols
-        function getDocumentSymbols(scope: Scope): DocumentSymbol[] {
-            const symbols: DocumentSymbol[] = [];
+        // Cheap local labels are shown under the label or scope that owns their region, or else
+        // under the scope they are in.
+        const cheapLocals: Map<SymbolTableEntity, Symbol[]> = new Map();
+        for (const region of symbolTable.cheapLocalRegions) {
+            const owner = region.owner ?? region.scope.scope;
+            if (!owner) continue;
+            cheapLocals.set(owner, [...cheapLocals.get(owner) ?? [], ...region.scope.getSymbols()]);
+        }
 
-            // Add all symbols in this scope
-            for (const sym of scope.getSymbols()) {
+        function getSymbolDocumentSymbols(syms: Iterable<Symbol>): DocumentSymbol[] {
+            const symbols: DocumentSymbol[] = [];
+            for (const sym of syms) {
+                const children = getSymbolDocumentSymbols(cheapLocals.get(sym) ?? []);
                 symbols.push({
                     name: sym.name,
                     kind: getLSPSymbolKind(sym),
                     range: sym.range,
                     selectionRange: sym.definition,
-                    children: undefined, // symbols don't have children
-                    detail: sym.segment && sym.segment !== 'CODE'? `(${sym.segment})` : undefined,
+                    children: children.length > 0 ? children : undefined,
+                    detail: getSegmentDetail(sym.segment),
                 });
             }
+            return symbols;
+        }
+
+        // Recursive function to convert our Symbol/Scope hierarchy to DocumentSymbols
+        function getDocumentSymbols(scope: Scope): DocumentSymbol[] {
+            // Add all symbols in this scope
+            const symbols = getSymbolDocumentSymbols(scope.getSymbols());
+            symbols.push(...getSymbolDocumentSymbols(cheapLocals.get(scope) ?? []));
 
             // Add child scopes recursively
             for (const childScope of scope.getChildScopes()) {
@@ -39,8 +54,7 @@ export function initializeDocumentSymbolProvider(connection: _Connection) {
                     range: childScope.range,
                     selectionRange: childScope.definition,
                     children: children.length > 0 ? children : undefined,
-                    detail: childScope.segment && childScope.segment !== 'CODE'
-                        ? `(${childScope.segment})` : undefined,
+                    detail: getSegmentDetail(childScope.segment),
                 });
             }
 
@@ -63,3 +77,8 @@ export function initializeDocumentSymbolProvider(connection: _Connection) {
         return rootSymbols;
     });
 }
+
+function getSegmentDetail(segment: Segment | null | undefined): string | undefined {
+    if (!segment || (segment.name === 'CODE' && !segment.addressSize)) return undefined;
+    return segment.addressSize ? `(${segment.name}: ${segment.addressSize})` : `(${segment.name})`;
+}
@@ -0,0 +1,416 @@
+import { ExpressionNode, NameNode } from './expressionParser';
+import { Token, TokenKind } from './lexer';
+import { Import, ReferenceInfo, Scope, Symbol, SymbolKind, SymbolTableEntity } from './symbolTable';
+import { resolveImport, resolveReference } from './symbolResolver';
+import { includesGraph, symbolTables } from './workspace';
+
+/**
+ * Resolves a name to the symbol whose value it refers to, or for `.sizeof` to the struct or scope
+ * it names, overriding the lookup through the indexed symbol tables. Used while a document is
+ * still being scanned. Returns undefined to fall back to the default lookup.
+ */
+export type NameResolver = (node: NameNode, uri: string) => SymbolTableEntity | undefined;
+
+/**
+ * What a document scan knows at the point of an expression, for the pseudo-functions that test
+ * names as they are assembled.
+ */
+export interface ScanContext {
+    resolveName: NameResolver;
+    // Whether a name is defined before the expression, or undefined if the expression isn't in the
+    // scanned document
+    isDefined(node: NameNode, uri: string): boolean | undefined;
+    // Whether a name is an instruction of the CPU in effect
+    isMnemonic(name: string): boolean;
+}
+
+/**
+ * Evaluates constant expressions the way ca65 does: as 32-bit signed integers, with booleans
+ * represented as 0 and 1. Anything that can only be known at link time (labels, the program
+ * counter, imports without a visible definition) does not evaluate.
+ */
+class Evaluator {
+    // Symbols currently being evaluated, to break definition cycles.
+    private visiting: Set<Symbol> = new Set();
+
+    constructor(private implicitImports: boolean, private scan?: ScanContext) {}
+
+    evaluateReference(ref: ReferenceInfo): number | undefined {
+        const symbol = this.resolveReference(ref);
+        return symbol ? this.evaluateSymbol(symbol) : undefined;
+    }
+
+    private resolveReference(ref: ReferenceInfo): Symbol | undefined {
+        let entity: SymbolTableEntity | undefined =
+            resolveReference(ref, symbolTables, includesGraph, this.implicitImports);
+        if (entity instanceof Import) {
+            entity = resolveImport(entity.name, ref.uri, symbolTables, includesGraph);
+        }
+        if (!(entity instanceof Symbol)) return undefined;
+
+        return this.getDefinitionInEffect(entity, ref);
+    }
+
+    private resolveName(node: NameNode, uri: string): Symbol | undefined {
+        const symbol = this.scan?.resolveName(node, uri);
+        if (symbol instanceof Symbol) return symbol;
+        const ref = symbolTables.get(uri)?.getReferenceForNode(node);
+        return ref ? this.resolveReference(ref) : undefined;
+    }
+
+    /**
+     * Resolves the argument of `.sizeof`, which names a struct, union, or scope rather than a
+     * value.
+     */
+    private resolveSizeofName(node: NameNode, uri: string): SymbolTableEntity | undefined {
+        const entity = this.scan?.resolveName(node, uri);
+        if (entity) return entity;
+        const ref = symbolTables.get(uri)?.getReferenceForNode(node);
+        return ref && resolveReference(ref, symbolTables, includesGraph, this.implicitImports);
+    }
+
+    evaluateSymbol(symbol: Symbol): number | undefined {
+        if (!symbol.value || this.visiting.has(symbol)) return undefined;
+
+        this.visiting.add(symbol);
+        const value = this.evaluate(symbol.value, symbol.uri);
+        this.visiting.delete(symbol);
+        return value;
+    }
+
+    /**
+     * Picks the definition of a `.set` variable that is in effect at a reference: the reference's
+     * own definition, else the last one before it in the same file.
+     */
+    private getDefinitionInEffect(symbol: Symbol, ref: ReferenceInfo): Symbol {
+        if (symbol.kind !== SymbolKind.Variable || symbol.uri !== ref.uri || !symbol.scope) {
+            return symbol;
+        }
+
+        let inEffect = symbol;
+        for (const definition of symbol.scope.getSymbolDefinitions(symbol.name)) {
+            const start = definition.definition.start;
+            if (start.line === ref.location.start.line
+                && start.character === ref.location.start.character) {
+                return definition;
+            }
+            if (start.line < ref.location.start.line) {
+                inEffect = definition;
+            }
+        }
+        return inEffect;
+    }
+
+    evaluate(node: ExpressionNode, uri: string): number | undefined {
+        switch (node.kind) {
+            case 'number':
+                return node.value | 0;
+            case 'name': {
+                const symbol = this.resolveName(node, uri);
+                return symbol ? this.evaluateSymbol(symbol) : undefined;
+            }
+            case 'unary':
+                return this.evaluateUnary(node.operator, node.operand, uri);
+            case 'binary':
+                return this.evaluateBinary(node.operator, node.left, node.right, uri);
+            case 'call':
+                return this.evaluateCall(node.name, node.args, uri);
+            default:
+                return undefined;
+        }
+    }
+
+    private evaluateUnary(operator: string, operandNode: ExpressionNode, uri: string): number | undefined {
+        const operand = this.evaluate(operandNode, uri);
+        if (operand === undefined) return undefined;
+
+        switch (operator) {
+            case '+': return operand;
+            case '-': return -operand | 0;
+            case '~': return ~operand;
+            case '!': return operand === 0 ? 1 : 0;
+            case '<': return operand & 0xFF;
+            case '>': return (operand >> 8) & 0xFF;
+            case '^': return (operand >> 16) & 0xFF;
+        }
+        return undefined;
+    }
+
+    private evaluateBinary(
+        operator: string,
+        leftNode: ExpressionNode,
+        rightNode: ExpressionNode,
+        uri: string
+    ): number | undefined {
+        const left = this.evaluate(leftNode, uri);
+        if (left === undefined) return undefined;
+
+        // Boolean operators short circuit like ca65's.
+        if (operator === '&&' && left === 0) return 0;
+        if (operator === '||' && left !== 0) return 1;
+
+        const right = this.evaluate(rightNode, uri);
+        if (right === undefined) return undefined;
+
+        switch (operator) {
+            case '*': return Math.imul(left, right);
+            case '/': return right === 0 ? undefined : Math.trunc(left / right) | 0;
+            case '.mod': return right === 0 ? undefined : left % right;
+            case '&': return left & right;
+            case '^': return left ^ right;
+            case '<<': return left << right;
+            case '>>': return left >> right;
+            case '+': return (left + right) | 0;
+            case '-': return (left - right) | 0;
+            case '|': return left | right;
+            case '=': return left === right ? 1 : 0;
+            case '<>': return left !== right ? 1 : 0;
+            case '<': return left < right ? 1 : 0;
+            case '>': return left > right ? 1 : 0;
+            case '<=': return left <= right ? 1 : 0;
+            case '>=': return left >= right ? 1 : 0;
+            case '&&': return right !== 0 ? 1 : 0;
+            case '||': return right !== 0 ? 1 : 0;
+            case '.xor': return (left !== 0) !== (right !== 0) ? 1 : 0;
+        }
+        return undefined;
+    }
+
+    private evaluateCall(name: string, argNodes: ExpressionNode[], uri: string): number | undefined {
+        switch (name) {
+            case '.strlen': {
+                const arg = argNodes[0] && this.evaluateString(argNodes[0], uri);
+                return arg?.length;
+            }
+            case '.strat': {
+                const [strNode, index] = argNodes;
+                const str = strNode && this.evaluateString(strNode, uri);
+                const position = index && this.evaluate(index, uri);
+                if (str === undefined || position === undefined) return undefined;
+                const code = str.charCodeAt(position);
+                return isNaN(code) ? undefined : code;
+            }
+            case '.const': {
+                const [argNode] = argNodes;
+                if (argNodes.length !== 1) return undefined;
+                if (this.evaluate(argNode, uri) !== undefined) return 1;
+                // Labels aren't constant, but other names may just not be known yet.
+                const symbol = argNode.kind === 'name' ? this.resolveName(argNode, uri) : undefined;
+                return symbol && !symbol.value ? 0 : undefined;
+            }
+            case '.defined': {
+                const [nameNode] = argNodes;
+                if (argNodes.length !== 1 || nameNode.kind !== 'name') return undefined;
+                const isDefined = this.scan?.isDefined(nameNode, uri);
+                return isDefined === undefined ? undefined : Number(isDefined);
+            }
+            case '.ismnemonic': {
+                const [nameNode] = argNodes;
+                if (!this.scan || argNodes.length !== 1 || nameNode.kind !== 'name') return undefined;
+                return nameNode.parts.length === 1 ? Number(this.scan.isMnemonic(nameNode.parts[0].text)) : 0;
+            }
+            case '.sizeof': {
+                const [nameNode] = argNodes;
+                if (argNodes.length !== 1 || nameNode.kind !== 'name') return undefined;
+                const entity = this.resolveSizeofName(nameNode, uri);
+                return entity instanceof Scope ? entity.size : undefined;
+            }
+        }
+
+        const args: number[] = [];
+        for (const argNode of argNodes) {
+            const arg = this.evaluate(argNode, uri);
+            if (arg === undefined) return undefined;
+            args.push(arg);
+        }
+
+        switch (name) {
+            case '.lobyte': return args.length === 1 ? args[0] & 0xFF : undefined;
+            case '.hibyte': return args.length === 1 ? (args[0] >> 8) & 0xFF : undefined;
+            case '.bankbyte': return args.length === 1 ? (args[0] >> 16) & 0xFF : undefined;
+            case '.loword': return args.length === 1 ? args[0] & 0xFFFF : undefined;
+            case '.hiword': return args.length === 1 ? (args[0] >> 16) & 0xFFFF : undefined;
+            case '.max': return args.length === 2 ? Math.max(args[0], args[1]) : undefined;
+            case '.min': return args.length === 2 ? Math.min(args[0], args[1]) : undefined;
+        }
+        return undefined;
+    }
+
+    /**
+     * Evaluates a string literal or one of the pseudo-functions that build strings.
+     */
+    evaluateString(node: ExpressionNode, uri: string): string | undefined {
+        if (node.kind === 'string') return node.value;
+        if (node.kind !== 'call') return undefined;
+
+        switch (node.name) {
+            case '.concat': {
+                let result = '';
+                for (const arg of node.args) {
+                    const str = this.evaluateString(arg, uri);
+                    if (str === undefined) return undefined;
+                    result += str;
+                }
+                return result;
+            }
+            case '.sprintf': {
+                const [formatNode, ...argNodes] = node.args;
+                const format = formatNode && this.evaluateString(formatNode, uri);
+                return format === undefined ? undefined : this.format(format, argNodes, uri);
+            }
+            case '.string': {
+                const [arg] = node.args;
+                if (!arg || node.args.length !== 1) return undefined;
+                if (arg.kind === 'name') {
+                    // Repeat counters are replaced by their value, other names are taken as is.
+                    const symbol = this.resolveName(arg, uri);
+                    if (symbol?.kind !== SymbolKind.RepeatCounter) return arg.parts.map(part => part.text).join('::');
+                }
+                const tokens = this.evaluateTokens(arg, uri);
+                if (tokens?.length === 1 && tokens[0].kind === TokenKind.Identifier) return tokens[0].text;
+                const value = tokens?.length === 1 && tokens[0].kind === TokenKind.Number
+                    ? tokens[0].value
+                    : this.evaluate(arg, uri);
+                return value === undefined ? undefined : String(value);
+            }
+            case '.left':
+            case '.right':
+            case '.mid': {
+                const tokens = this.evaluateTokens(node, uri);
+                if (tokens?.length !== 1 || tokens[0].kind !== TokenKind.String) return undefined;
+                return tokens[0].text.replace(/^"/, '').replace(/"$/, '');
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Evaluates a token list argument, applying `.left`, `.right`, and `.mid`.
+     */
+    private evaluateTokens(node: ExpressionNode, uri: string): Token[] | undefined {
+        switch (node.kind) {
+            case 'tokenList':
+                return node.tokens;
+            case 'string':
+                return [{ kind: TokenKind.String, text: `"${node.value}"`, index: node.start }];
+            case 'call':
+                break;
+            default:
+                return undefined;
+        }
+
+        const counts: number[] = [];
+        for (const countNode of node.args.slice(0, -1)) {
+            const count = this.evaluate(countNode, uri);
+            if (count === undefined) return undefined;
+            counts.push(count);
+        }
+        const tokens = node.args.length > 0 ? this.evaluateTokens(node.args[node.args.length - 1], uri) : undefined;
+        if (!tokens) return undefined;
+
+        switch (node.name) {
+            case '.left': return counts.length === 1 ? tokens.slice(0, Math.max(counts[0], 0)) : undefined;
+            case '.right': return counts.length === 1 ? tokens.slice(Math.max(tokens.length - counts[0], 0)) : undefined;
+            case '.mid': return counts.length === 2 ? tokens.slice(counts[0], counts[0] + counts[1]) : undefined;
+        }
+        return undefined;
+    }
+
+    /**
+     * Formats the arguments of `.sprintf` like C's printf, which ca65 mimics.
+     */
+    private format(format: string, argNodes: ExpressionNode[], uri: string): string | undefined {
+        let next = 0;
+        let failed = false;
+        const specification = /%([-+ #0]*)(\d*)(?:\.(\d+))?([%cdiosuXx])/g;
+        const result = format.replace(specification, (_, flags: string, width: string, precision: string, conversion: string) => {
+            if (conversion === '%') return '%';
+            const argNode = argNodes[next++];
+            if (!argNode) {
+                failed = true;
+                return '';
+            }
+
+            let text: string;
+            if (conversion === 's') {
+                const str = this.evaluateString(argNode, uri);
+                if (str === undefined) {
+                    failed = true;
+                    return '';
+                }
+                text = precision ? str.slice(0, Number(precision)) : str;
+            } else {
+                const value = this.evaluate(argNode, uri);
+                if (value === undefined) {
+                    failed = true;
+                    return '';
+                }
+                switch (conversion) {
+                    case 'c': text = String.fromCharCode(value & 0xFF); break;
+                    case 'o': text = (value >>> 0).toString(8); break;
+                    case 'u': text = String(value >>> 0); break;
+                    case 'x': text = (value >>> 0).toString(16); break;
+                    case 'X': text = (value >>> 0).toString(16).toUpperCase(); break;
+                    default: text = String(Math.abs(value)); break;
+                }
+                if (precision) text = text.padStart(Number(precision), '0');
+                if (conversion === 'd' || conversion === 'i') {
+                    const sign = value < 0 ? '-' : flags.includes('+') ? '+' : flags.includes(' ') ? ' ' : '';
+                    if (flags.includes('0') && !flags.includes('-') && !precision) {
+                        text = text.padStart(Number(width || 0) - sign.length, '0');
+                    }
+                    text = sign + text;
+                } else if (flags.includes('0') && !flags.includes('-') && !precision) {
+                    text = text.padStart(Number(width || 0), '0');
+                }
+            }
+            return flags.includes('-') ? text.padEnd(Number(width || 0)) : text.padStart(Number(width || 0));
+        });
+        return failed ? undefined : result;
+    }
+}
+
+/**
+ * Evaluates the value of a referenced constant, variable, or enum member at the point of the
+ * reference, following definitions across the translation unit and through imports.
+ * @param ref The reference to evaluate.
+ * @param implicitImports Whether undefined symbols are treated as imports.
+ * @returns The value, or undefined if it isn't a constant.
+ */
+export function evaluateReference(ref: ReferenceInfo, implicitImports: boolean): number | undefined {
+    return new Evaluator(implicitImports).evaluateReference(ref);
+}
+
+/**
+ * Evaluates an expression found in the file `uri`.
+ * @returns The value, or undefined if it isn't constant.
+ */
+export function evaluateExpression(
+    node: ExpressionNode,
+    uri: string,
+    implicitImports: boolean,
+    scan?: ScanContext
+): number | undefined {
+    return new Evaluator(implicitImports, scan).evaluate(node, uri);
+}
+
+/**
+ * Evaluates a string expression found in the file `uri`, e.g. the argument of `.ident`.
+ * @returns The string, or undefined if it isn't constant.
+ */
+export function evaluateString(
+    node: ExpressionNode,
+    uri: string,
+    implicitImports: boolean,
+    scan?: ScanContext
+): string | undefined {
+    return new Evaluator(implicitImports, scan).evaluateString(node, uri);
+}
+
+/**
+ * Evaluates the value a symbol was defined with.
+ * @returns The value, or undefined if it isn't a constant.
+ */
+export function evaluateSymbol(symbol: Symbol, implicitImports: boolean): number | undefined {
+    return new Evaluator(implicitImports).evaluateSymbol(symbol);
+}
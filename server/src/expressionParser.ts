@@ -0,0 +1,461 @@
+import { Token, TokenKind, tokenEnd } from './lexer';
+
+/**
+ * The context in which a name is resolved. Mirrors `ReferenceInfo['context']` for the contexts
+ * that can appear inside of an expression.
+ */
+export type NameContext = 'symbol' | 'sizeof';
+
+interface BaseNode {
+    start: number;
+    end: number;
+    // The enclosing node, or undefined for the root of an expression.
+    parent?: ExpressionNode;
+}
+
+export interface NumberNode extends BaseNode {
+    kind: 'number';
+    value: number;
+}
+
+export interface StringNode extends BaseNode {
+    kind: 'string';
+    value: string;
+}
+
+export interface NamePart {
+    text: string;
+    index: number;
+}
+
+export interface NameNode extends BaseNode {
+    kind: 'name';
+    // The scope qualifiers followed by the name itself. A leading empty part is the root scope.
+    parts: NamePart[];
+    context: NameContext;
+}
+
+export interface ProgramCounterNode extends BaseNode {
+    kind: 'pc';
+}
+
+export interface AnonLabelRefNode extends BaseNode {
+    kind: 'anonLabelRef';
+    text: string;
+}
+
+export interface UnaryNode extends BaseNode {
+    kind: 'unary';
+    operator: string;
+    operand: ExpressionNode;
+}
+
+export interface BinaryNode extends BaseNode {
+    kind: 'binary';
+    operator: string;
+    left: ExpressionNode;
+    right: ExpressionNode;
+}
+
+export interface CallNode extends BaseNode {
+    kind: 'call';
+    // The lowercased pseudo-function name with aliases resolved, e.g. '.defined'.
+    name: string;
+    args: ExpressionNode[];
+}
+
+export interface PseudoVariableNode extends BaseNode {
+    kind: 'pseudoVariable';
+    name: string;
+}
+
+/**
+ * A raw token list, e.g. `{ lda #1 }` or an argument of `.match` that isn't an expression.
+ * Names found in the tokens are still collected so that they can be referenced.
+ */
+export interface TokenListNode extends BaseNode {
+    kind: 'tokenList';
+    tokens: Token[];
+    names: NameNode[];
+}
+
+export type ExpressionNode =
+    NumberNode
+    | StringNode
+    | NameNode
+    | ProgramCounterNode
+    | AnonLabelRefNode
+    | UnaryNode
+    | BinaryNode
+    | CallNode
+    | PseudoVariableNode
+    | TokenListNode;
+
+// Pseudo-functions that take parenthesized arguments.
+const PSEUDO_FUNCTIONS = new Set([
+    '.addrsize', '.bank', '.bankbyte', '.blank', '.cap', '.concat', '.const', '.defined',
+    '.definedmacro', '.hibyte', '.hiword', '.ident', '.ismnemonic', '.left', '.lobyte', '.loword',
+    '.match', '.max', '.mid', '.min', '.referenced', '.right', '.sizeof', '.sprintf', '.strat',
+    '.string', '.strlen', '.tcount', '.xmatch',
+]);
+
+const DIRECTIVE_ALIASES: Record<string, string> = {
+    '.capability': '.cap',
+    '.def': '.defined',
+    '.ismnem': '.ismnemonic',
+    '.ref': '.referenced',
+};
+
+// Dot-keyword spellings of operators, mapped to their symbolic equivalent.
+const KEYWORD_OPERATORS: Record<string, string> = {
+    '.and': '&&',
+    '.or': '||',
+    '.not': '!',
+    '.xor': '.xor',
+    '.mod': '.mod',
+    '.bitand': '&',
+    '.bitor': '|',
+    '.bitxor': '^',
+    '.bitnot': '~',
+    '.shl': '<<',
+    '.shr': '>>',
+};
+
+/**
+ * Binary operators by ca65 precedence level, loosest binding first. `!` (level 7) is handled as
+ * a prefix operator ahead of these.
+ */
+const BINARY_PRECEDENCE: string[][] = [
+    ['||'],
+    ['&&', '.xor'],
+    ['=', '<>', '<', '>', '<=', '>='],
+    ['+', '-', '|'],
+    ['*', '/', '.mod', '&', '^', '<<', '>>'],
+];
+
+const UNARY_OPERATORS = ['+', '-', '~', '<', '>', '^'];
+
+function operatorOf(token: Token | undefined): string | undefined {
+    if (!token) return undefined;
+    if (token.kind === TokenKind.Operator) return token.text;
+    if (token.kind === TokenKind.Directive) return KEYWORD_OPERATORS[token.text.toLowerCase()];
+    return undefined;
+}
+
+function isNameStart(token: Token | undefined): boolean {
+    return token?.kind === TokenKind.Identifier
+        || token?.kind === TokenKind.CheapLocal
+        || token?.kind === TokenKind.ScopeSeparator;
+}
+
+class Parser {
+    private pos = 0;
+
+    constructor(private tokens: Token[], private nameContext: NameContext = 'symbol') {}
+
+    atEnd(): boolean {
+        return this.pos >= this.tokens.length;
+    }
+
+    peek(offset: number = 0): Token | undefined {
+        return this.tokens[this.pos + offset];
+    }
+
+    next(): Token {
+        return this.tokens[this.pos++];
+    }
+
+    parseExpression(): ExpressionNode | undefined {
+        const token = this.peek();
+        if (operatorOf(token) === '!') {
+            this.next();
+            const operand = this.parseExpression();
+            if (!operand) return undefined;
+            return { kind: 'unary', operator: '!', operand, start: token!.index, end: operand.end };
+        }
+        return this.parseBinary(0);
+    }
+
+    private parseBinary(level: number): ExpressionNode | undefined {
+        if (level >= BINARY_PRECEDENCE.length) return this.parseUnary();
+
+        let left = this.parseBinary(level + 1);
+        if (!left) return undefined;
+
+        let operator = operatorOf(this.peek());
+        while (operator && BINARY_PRECEDENCE[level].includes(operator)) {
+            const save = this.pos;
+            this.next();
+            const right = this.parseBinary(level + 1);
+            if (!right) {
+                this.pos = save;
+                break;
+            }
+            left = { kind: 'binary', operator, left, right, start: left.start, end: right.end };
+            operator = operatorOf(this.peek());
+        }
+        return left;
+    }
+
+    private parseUnary(): ExpressionNode | undefined {
+        const token = this.peek();
+        const operator = operatorOf(token);
+        if (operator && UNARY_OPERATORS.includes(operator)) {
+            this.next();
+            const operand = this.parseUnary();
+            if (!operand) return undefined;
+            return { kind: 'unary', operator, operand, start: token!.index, end: operand.end };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): ExpressionNode | undefined {
+        const token = this.peek();
+        if (!token) return undefined;
+
+        switch (token.kind) {
+            case TokenKind.Number:
+            case TokenKind.Char:
+                this.next();
+                return { kind: 'number', value: token.value ?? 0, start: token.index, end: tokenEnd(token) };
+            case TokenKind.String:
+                this.next();
+                return {
+                    kind: 'string',
+                    value: token.text.replace(/^"/, '').replace(/"$/, ''),
+                    start: token.index,
+                    end: tokenEnd(token)
+                };
+            case TokenKind.Identifier:
+            case TokenKind.CheapLocal:
+            case TokenKind.ScopeSeparator:
+                return this.parseName();
+            case TokenKind.AnonLabelRef:
+                this.next();
+                return { kind: 'anonLabelRef', text: token.text, start: token.index, end: tokenEnd(token) };
+            case TokenKind.Directive:
+                return this.parseDirective();
+            case TokenKind.Operator:
+                break;
+            default:
+                return undefined;
+        }
+
+        switch (token.text) {
+            case '*':
+            case '$': // With `.feature dollar_is_pc`
+                this.next();
+                return { kind: 'pc', start: token.index, end: tokenEnd(token) };
+            case '(':
+            case '[': {
+                const close = token.text === '(' ? ')' : ']';
+                const save = this.pos;
+                this.next();
+                const inner = this.parseExpression();
+                if (!inner || this.peek()?.text !== close) {
+                    this.pos = save;
+                    return undefined;
+                }
+                this.next();
+                return inner;
+            }
+            case '{':
+                return this.parseBracedTokenList();
+        }
+        return undefined;
+    }
+
+    private parseName(): NameNode {
+        const parts: NamePart[] = [];
+        const start = this.peek()!.index;
+        if (this.peek()?.kind === TokenKind.ScopeSeparator) {
+            parts.push({ text: '', index: this.next().index }); // Root scope
+        }
+        while (true) {
+            const token = this.peek();
+            if (token?.kind !== TokenKind.Identifier && token?.kind !== TokenKind.CheapLocal) break;
+            this.next();
+            parts.push({ text: token.text, index: token.index });
+            if (this.peek()?.kind !== TokenKind.ScopeSeparator || !isNameStart(this.peek(1))) break;
+            this.next();
+        }
+        const last = parts[parts.length - 1];
+        return {
+            kind: 'name',
+            parts,
+            context: this.nameContext,
+            start,
+            end: last.text ? last.index + last.text.length : last.index + 2
+        };
+    }
+
+    private parseDirective(): ExpressionNode | undefined {
+        const token = this.peek()!;
+        let name = token.text.toLowerCase();
+        name = DIRECTIVE_ALIASES[name] ?? name;
+
+        // Keyword operators are handled by the operator parsers.
+        if (KEYWORD_OPERATORS[name]) return undefined;
+
+        this.next();
+        if (!PSEUDO_FUNCTIONS.has(name) || this.peek()?.text !== '(') {
+            return { kind: 'pseudoVariable', name, start: token.index, end: tokenEnd(token) };
+        }
+
+        this.next(); // (
+        const args: ExpressionNode[] = [];
+        const previousContext = this.nameContext;
+        if (name === '.sizeof') this.nameContext = 'sizeof';
+
+        let end = tokenEnd(token);
+        while (!this.atEnd()) {
+            const argTokens = this.takeArgumentTokens();
+            if (argTokens.length > 0) args.push(parseArgument(argTokens, this.nameContext));
+
+            const separator = this.next();
+            if (!separator) break;
+            end = tokenEnd(separator);
+            if (separator.text === ')') break;
+        }
+
+        this.nameContext = previousContext;
+        return { kind: 'call', name, args, start: token.index, end };
+    }
+
+    /**
+     * Consumes the tokens of a single call argument, stopping before the top-level ',' or ')'.
+     */
+    private takeArgumentTokens(): Token[] {
+        const argTokens: Token[] = [];
+        let depth = 0;
+        while (!this.atEnd()) {
+            const token = this.peek()!;
+            if (token.kind === TokenKind.Operator) {
+                if (depth === 0 && (token.text === ',' || token.text === ')')) break;
+                if ('([{'.includes(token.text)) depth++;
+                if (')]}'.includes(token.text)) depth--;
+            }
+            argTokens.push(this.next());
+        }
+        return argTokens;
+    }
+
+    private parseBracedTokenList(): TokenListNode {
+        const open = this.next();
+        const tokens: Token[] = [];
+        let depth = 0;
+        let end = tokenEnd(open);
+        while (!this.atEnd()) {
+            const token = this.next();
+            end = tokenEnd(token);
+            if (token.text === '{') depth++;
+            if (token.text === '}') {
+                if (depth === 0) break;
+                depth--;
+            }
+            tokens.push(token);
+        }
+        return makeTokenList(tokens, open.index, end, this.nameContext);
+    }
+}
+
+function makeTokenList(tokens: Token[], start: number, end: number, context: NameContext): TokenListNode {
+    const names: NameNode[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+        if (!isNameStart(tokens[i])) continue;
+        const parser = new Parser(tokens.slice(i));
+        const name = parser.parseExpression();
+        if (name?.kind !== 'name' || name.parts[name.parts.length - 1].text === '') continue;
+        names.push({ ...name, context });
+        while (i + 1 < tokens.length && tokens[i + 1].index < name.end) i++;
+    }
+    return { kind: 'tokenList', tokens, names, start, end };
+}
+
+/**
+ * Parses a pseudo-function argument as an expression, falling back to a raw token list for
+ * arguments that are not expressions (e.g. the token lists of `.match`).
+ */
+function parseArgument(tokens: Token[], context: NameContext): ExpressionNode {
+    const parser = new Parser(tokens, context);
+    const expression = parser.parseExpression();
+    if (expression && parser.atEnd()) {
+        return expression;
+    }
+    return makeTokenList(tokens, tokens[0].index, tokenEnd(tokens[tokens.length - 1]), context);
+}
+
+/**
+ * Parses a complete expression.
+ * @param tokens The tokens of the expression, without any comment.
+ * @returns The expression, or undefined if the tokens are not a single well-formed expression.
+ */
+export function parseExpression(tokens: Token[]): ExpressionNode | undefined {
+    const parser = new Parser(tokens);
+    const expression = parser.parseExpression();
+    if (!expression || !parser.atEnd()) return undefined;
+    linkParents(expression);
+    return expression;
+}
+
+/**
+ * Parses a comma-separated list of operands, as found after an instruction or data directive.
+ * Addressing mode syntax (`#`, `a:`, `,x`) is skipped. Parsing is error tolerant: tokens that
+ * cannot start an expression are skipped, so the result covers every well-formed sub-expression.
+ * @param tokens The tokens to parse, without any comment.
+ * @returns The parsed operand expressions, in source order.
+ */
+export function parseOperands(tokens: Token[]): ExpressionNode[] {
+    const parser = new Parser(tokens);
+    const operands: ExpressionNode[] = [];
+    while (!parser.atEnd()) {
+        const token = parser.peek()!;
+        if (token.kind === TokenKind.AddressOverride || token.text === '#' || token.text === ',') {
+            parser.next();
+            continue;
+        }
+        const operand = parser.parseExpression();
+        if (operand) {
+            linkParents(operand);
+            operands.push(operand);
+        } else {
+            parser.next();
+        }
+    }
+    return operands;
+}
+
+function linkParents(root: ExpressionNode) {
+    forEachNode(root, node => {
+        for (const child of getChildren(node)) child.parent = node;
+    });
+}
+
+function getChildren(node: ExpressionNode): ExpressionNode[] {
+    switch (node.kind) {
+        case 'unary': return [node.operand];
+        case 'binary': return [node.left, node.right];
+        case 'call': return node.args;
+        case 'tokenList': return node.names;
+        default: return [];
+    }
+}
+
+/**
+ * Calls `callback` for a node and all of its descendants, in source order.
+ */
+export function forEachNode(node: ExpressionNode, callback: (node: ExpressionNode) => void) {
+    callback(node);
+    for (const child of getChildren(node)) forEachNode(child, callback);
+}
+
+/**
+ * Collects every name referenced by an expression, in source order.
+ */
+export function collectNames(node: ExpressionNode): NameNode[] {
+    const names: NameNode[] = [];
+    forEachNode(node, child => {
+        if (child.kind === 'name') names.push(child);
+    });
+    return names;
+}
@@ -0,0 +1,100 @@
+import { Ca65Settings } from './settings';
+import { LexerOptions, Token, TokenKind } from './lexer';
+
+/**
+ * The ca65 features that change how source is read. They start out as given on the command line
+ * (`--feature`) and are toggled by `.feature` and the older `.linecont` in the source.
+ */
+export interface Ca65Features extends Required<LexerOptions> {
+    // `/* ... */` comments, see maskCComments.
+    cComments: boolean;
+    lineContinuations: boolean;
+    // Mnemonics may be used as names of macros and symbols.
+    ubiquitousIdents: boolean;
+}
+
+// ca65 feature names, as used by `.feature` and `--feature`.
+const FEATURE_NAMES: Record<string, keyof Ca65Features> = {
+    at_in_identifiers: 'atInIdentifiers',
+    c_comments: 'cComments',
+    dollar_in_identifiers: 'dollarInIdentifiers',
+    dollar_is_pc: 'dollarIsPc',
+    leading_dot_in_identifiers: 'leadingDotInIdentifiers',
+    line_continuations: 'lineContinuations',
+    loose_string_term: 'looseStringTerm',
+    ubiquitous_idents: 'ubiquitousIdents',
+};
+
+/**
+ * Returns the features in effect at the start of every file, i.e. those passed to ca65.
+ */
+export function getInitialFeatures(settings: Ca65Settings): Ca65Features {
+    const features: Ca65Features = {
+        atInIdentifiers: false,
+        cComments: false,
+        dollarInIdentifiers: false,
+        dollarIsPc: false,
+        leadingDotInIdentifiers: false,
+        lineContinuations: settings.lineContinuations,
+        looseStringTerm: false,
+        ubiquitousIdents: false,
+    };
+    for (const name of settings.features ?? []) {
+        const key = FEATURE_NAMES[name.toLowerCase()];
+        if (key) features[key] = true;
+    }
+    return features;
+}
+
+/**
+ * Builds the `--feature` arguments that enable the given features on the ca65 command line.
+ */
+export function getFeatureArgs(features: Ca65Features): string[] {
+    const args: string[] = [];
+    for (const [name, key] of Object.entries(FEATURE_NAMES)) {
+        if (features[key]) args.push('--feature', name);
+    }
+    return args;
+}
+
+/**
+ * Reads an optional `+` or `-` switch like ca65 does. No switch means on.
+ * @returns The switch state and the number of tokens read, or undefined if the token is
+ *          something else.
+ */
+function readSwitch(token: Token | undefined): { on: boolean, length: number } | undefined {
+    if (!token || (token.kind === TokenKind.Operator && token.text === ',')) return { on: true, length: 0 };
+    if (token.kind === TokenKind.Operator && (token.text === '+' || token.text === '-')) {
+        return { on: token.text === '+', length: 1 };
+    }
+    if (token.kind === TokenKind.Identifier && ['on', 'off'].includes(token.text.toLowerCase())) {
+        return { on: token.text.toLowerCase() === 'on', length: 1 };
+    }
+    return undefined;
+}
+
+/**
+ * Applies a `.feature` or `.linecont` directive to the features in effect.
+ * @param features The features to update.
+ * @param tokens The tokens of the directive line, starting with the directive.
+ */
+export function applyFeatureDirective(features: Ca65Features, tokens: Token[]): void {
+    const directive = tokens[0]?.text.toLowerCase();
+    if (directive === '.linecont') {
+        const featureSwitch = readSwitch(tokens[1]);
+        if (featureSwitch) features.lineContinuations = featureSwitch.on;
+        return;
+    }
+    if (directive !== '.feature') return;
+
+    // .feature name [+|-] {, name [+|-]}
+    let i = 1;
+    while (i < tokens.length) {
+        const key = FEATURE_NAMES[tokens[i].text.toLowerCase()];
+        const featureSwitch = readSwitch(tokens[i + 1]);
+        if (!featureSwitch) return;
+        if (key) features[key] = featureSwitch.on;
+        i += 1 + featureSwitch.length;
+        if (tokens[i]?.text === ',') i++;
+    }
+}
@@ -4,11 +4,11 @@ import {
     FoldingRange,
     FoldingRangeKind
 } from 'vscode-languageserver/node';
-import { getDocumentSettings, initializationGate, symbolTables } from './server';
+import { getDocumentSettings, initializationGate, symbolTables } from './workspace';
 
 export function initializeFoldingRangeProvider(connection: _Connection) {
     connection.onFoldingRanges(async (params: FoldingRangeParams): Promise<FoldingRange[] | null> => {
-        await initializationGate.isInitialized;
+        await initializationGate.isDocumentScanned(params.textDocument.uri);
 
         const settings = await getDocumentSettings(params.textDocument.uri);
         if (!settings.smartFolding) {
@@ -30,6 +30,29 @@ export function initializeFoldingRangeProvider(connection: _Connection) {
             }
         }
 
+        for (const range of symbolTable.anonymousStructRanges) {
+            if (range.start.line < range.end.line) {
+                foldingRanges.push({
+                    startLine: range.start.line,
+                    endLine: range.end.line,
+                    kind: FoldingRangeKind.Region
+                });
+            }
+        }
+
+        // Fold each branch of a conditional up to the line before the next branch or the .endif.
+        for (const block of symbolTable.conditionalBlocks) {
+            for (const branch of block.branches) {
+                if (branch.range.start.line < branch.range.end.line - 1) {
+                    foldingRanges.push({
+                        startLine: branch.range.start.line,
+                        endLine: branch.range.end.line - 1,
+                        kind: FoldingRangeKind.Region
+                    });
+                }
+            }
+        }
+
         return foldingRanges;
     });
 }
@@ -11,10 +11,25 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 import { URI } from 'vscode-uri';
 import * as fs from 'fs/promises';
 
-import { mnemonicData, directiveData } from './dataManager';
+import { directiveData, getMnemonicData, normalizeCpu } from './dataManager';
 import { Macro, SymbolTableEntity } from './symbolTable';
-import { getLSPSymbolKind, resolveReference } from './symbolResolver';
-import { getDocumentSettings, includesGraph, initializationGate, performanceMonitor, symbolTables } from './server';
+import { getLSPSymbolKind, resolveReference, resolveReferenceCandidates } from './symbolResolver';
+import { evaluateReference } from './expressionEvaluator';
+import { getInitialFeatures } from './features';
+import { DebugSymbol, formatAddress, getEntityAddress } from './debugInfo';
+import { getLinkerConfig, getSegmentMarkdown } from './linkerConfig';
+import { getMacpackDocument } from './macpacks';
+import { getLibraryExport, getLibraryModuleName, isLibraryUri, ObjectExport } from './objectFiles';
+import { TokenKind, maskCComments, stripComment, tokenEnd, tokenizeLine } from './lexer';
+import { getWorkspaceRelativePath } from './pathUtils';
+import {
+    getDocumentSettings,
+    includesGraph,
+    initializationGate,
+    performanceMonitor,
+    projectTargets,
+    symbolTables,
+} from './workspace';
 
 export function initializeHoverProvider(connection: _Connection, documents: TextDocuments<TextDocument>) {
     connection.onHover(async ({ textDocument, position }: TextDocumentPositionParams): Promise<Hover | undefined> => {
@@ -35,6 +50,19 @@ export function initializeHoverProvider(connection: _Connection, documents: Text
 
         const settings = await getDocumentSettings(textDocument.uri);
 
+        // The segment of a `.segment` directive, as the linker config places it
+        const segmentReference = symbolTable.getSegmentReferenceAtPosition(position);
+        if (segmentReference) {
+            const config = await getLinkerConfig(textDocument.uri, settings);
+            const segment = config?.segments.get(segmentReference.name);
+            performanceMonitor.stop("onHover");
+            if (!config || !segment) return undefined;
+            return {
+                contents: { kind: MarkupKind.Markdown, value: getSegmentMarkdown(config, segment) },
+                range: segmentReference.range,
+            };
+        }
+
         const ref = symbolTable.getReferenceAtPosition(position);
         if (ref) {
             const foundEntity = resolveReference(
@@ -44,25 +72,48 @@ export function initializeHoverProvider(connection: _Connection, documents: Text
                 settings.implicitImports
             );
             if (foundEntity) {
-                let definitionDocument = documents.get(foundEntity.uri);
-
-                if (!definitionDocument) {
-                    try {
-                        const filePath = URI.parse(foundEntity.uri).fsPath;
-                        const content = await fs.readFile(filePath, 'utf-8');
-                        // Create a temporary document object for the hover generator
-                        definitionDocument = TextDocument.create(foundEntity.uri, 'ca65-lsp', 0, content);
-                    } catch (e) {
-                        connection.console.error(`Failed to read file for hover: ${foundEntity.uri}`);
-                        performanceMonitor.stop("onHover");
-                        return undefined; // Can't show hover if we can't read the file
+                // Symbols of prebuilt libraries have no source to show.
+                const libraryExport = getLibraryExport(foundEntity);
+                let markdown: string;
+                if (libraryExport) {
+                    markdown = generateLibraryExportMarkdown(foundEntity, libraryExport.objectExport, libraryExport.imports);
+                } else {
+                    let definitionDocument = documents.get(foundEntity.uri) ?? getMacpackDocument(foundEntity.uri);
+
+                    if (!definitionDocument) {
+                        try {
+                            const filePath = URI.parse(foundEntity.uri).fsPath;
+                            const content = await fs.readFile(filePath, 'utf-8');
+                            // Create a temporary document object for the hover generator
+                            definitionDocument = TextDocument.create(foundEntity.uri, 'ca65-lsp', 0, content);
+                        } catch (e) {
+                            connection.console.error(`Failed to read file for hover: ${foundEntity.uri}`);
+                            performanceMonitor.stop("onHover");
+                            return undefined; // Can't show hover if we can't read the file
+                        }
                     }
+
+                    markdown = generateSymbolTableEntityMarkdown(foundEntity, definitionDocument);
+                }
+                const value = evaluateReference(ref, settings.implicitImports);
+                if (value !== undefined) {
+                    markdown += '\n\n' + generateValueMarkdown(value);
+                }
+                const candidates =
+                    resolveReferenceCandidates(ref, symbolTables, includesGraph, settings.implicitImports);
+                if (candidates.length > 1) {
+                    markdown += '\n\n' + generateCandidatesMarkdown(candidates);
+                }
+                const debugSymbol = libraryExport ? undefined : await getEntityAddress(foundEntity);
+                if (debugSymbol) {
+                    markdown += '\n\n' + generateAddressMarkdown(debugSymbol);
                 }
 
+                performanceMonitor.stop("onHover");
                 return {
                     contents: {
                         kind: MarkupKind.Markdown,
-                        value: generateSymbolTableEntityMarkdown(foundEntity, definitionDocument)
+                        value: markdown
                     },
                     range: ref?.location 
                 };
@@ -71,18 +122,21 @@ export function initializeHoverProvider(connection: _Connection, documents: Text
 
         // Fallback for mnemonics and directives
         const lineText = document.getText({ start: { line: position.line, character: 0 }, end: { line: position.line, character: Number.MAX_VALUE } });
-        const wordRegex = /[.a-zA-Z_][a-zA-Z0-9_]*/g;
-        let match;
+        const features = symbolTable.getFeaturesAtLine(position.line) ?? getInitialFeatures(settings);
+        const inCComment = symbolTable.cCommentLines.has(position.line);
+        const maskedText = features.cComments || inCComment ? maskCComments(lineText, inCComment).text : lineText;
 
-        while ((match = wordRegex.exec(lineText)) !== null) {
-            const start = match.index!;
-            const end = start + match[0].length;
+        for (const token of stripComment(tokenizeLine(maskedText, features))) {
+            if (token.kind !== TokenKind.Identifier && token.kind !== TokenKind.Directive) continue;
+
+            const start = token.index;
+            const end = tokenEnd(token);
 
             if (position.character >= start && position.character <= end) {
-                const word = match[0];
+                const word = token.text;
                 const hoverRange = Range.create(position.line, start, position.line, end);
 
-                if (word.startsWith('.')) {
+                if (token.kind === TokenKind.Directive) {
                     const name = word.slice(1).toUpperCase();
                     let data = directiveData[name];
                     if (typeof data === 'string') data = directiveData[data];
@@ -92,7 +146,8 @@ export function initializeHoverProvider(connection: _Connection, documents: Text
                     }
                 } else {
                     const name = word.toUpperCase();
-                    const data = mnemonicData[name];
+                    const cpu = symbolTable.getCpuAtLine(position.line) ?? normalizeCpu(settings.cpu);
+                    const data = getMnemonicData(cpu)[name];
                     if (data) {
                         performanceMonitor.stop("onHover");
                         return { contents: { kind: MarkupKind.Markdown, value: generateMnemonicHoverMarkdown(word, data) }, range: hoverRange };
@@ -183,7 +238,9 @@ function generateSymbolTableEntityMarkdown(entity: SymbolTableEntity, document:
 
     let content = '';
     if (entity.segment) {
-        content += `.segment "${entity.segment}"\n`;
+        content += entity.segment.addressSize
+            ? `.segment "${entity.segment.name}": ${entity.segment.addressSize}\n`
+            : `.segment "${entity.segment.name}"\n`;
     }
 
     let currentScope = entity.scope;
@@ -201,6 +258,55 @@ function generateSymbolTableEntityMarkdown(entity: SymbolTableEntity, document:
     return '```ca65\n' + content + '\n```';
 }
 
+function generateValueMarkdown(value: number): string {
+    // Negative values are shown as their 32-bit two's complement in hex and binary.
+    const unsigned = value >>> 0;
+    let hex = unsigned.toString(16).toUpperCase();
+    hex = hex.padStart(hex.length + (hex.length % 2), '0');
+    let binary = unsigned.toString(2);
+    binary = binary.padStart(Math.ceil(binary.length / 8) * 8, '0');
+    return `**Value:** \`$${hex}\` | \`${value}\` | \`%${binary}\``;
+}
+
+/**
+ * Describes where the linker placed a label, as the debug info or map of its target tells.
+ */
+function generateAddressMarkdown(symbol: DebugSymbol): string {
+    let markdown = `**Address:** \`${formatAddress(symbol.address)}\``;
+    if (symbol.segment) markdown += ` in \`${symbol.segment.name}\``;
+    if (symbol.size !== undefined) markdown += `, ${symbol.size} ${symbol.size === 1 ? 'byte' : 'bytes'}`;
+    return markdown;
+}
+
+/**
+ * Describes a symbol that a prebuilt library exports: the module it is in, its value or size, and
+ * what the module imports.
+ */
+function generateLibraryExportMarkdown(entity: SymbolTableEntity, objectExport: ObjectExport, imports: string[]): string {
+    let markdown = `**${objectExport.isLabel ? 'Label' : 'Constant'}** \`${entity.name}\` from \`${getLibraryModuleName(entity.uri)}\``;
+    if (objectExport.value !== undefined) markdown += '\n\n' + generateValueMarkdown(objectExport.value);
+    if (objectExport.size !== undefined) markdown += `\n\n**Size:** ${objectExport.size} ${objectExport.size === 1 ? 'byte' : 'bytes'}`;
+    if (imports.length > 0) markdown += `\n\n**Imports:** ${imports.map(name => `\`${name}\``).join(', ')}`;
+    return markdown;
+}
+
+/**
+ * Lists the symbols an import resolves to in the different targets the file is linked into.
+ */
+function generateCandidatesMarkdown(candidates: SymbolTableEntity[]): string {
+    let markdown = '**Exported per target:**\n';
+    for (const candidate of candidates) {
+        const targetNames = projectTargets.getTargets(candidate.uri).map(target => target.name);
+        const location = isLibraryUri(candidate.uri)
+            ? getLibraryModuleName(candidate.uri)
+            : `${getWorkspaceRelativePath(candidate.uri) ?? candidate.uri}:${candidate.definition.start.line + 1}`;
+        markdown += targetNames.length > 0
+            ? `- ${targetNames.join(', ')}: \`${location}\`\n`
+            : `- \`${location}\`\n`;
+    }
+    return markdown;
+}
+
 function generateDirectiveHoverMarkdown(directiveName: string, data: any): string {
     let markdown = `### \`${directiveName.toUpperCase()}\`\n`;
     markdown += `${data.shortDescription}\n\n`;
@@ -0,0 +1,40 @@
+/**
+ * This module publishes the lines that conditional assembly excludes, so that the client can dim
+ * them the way C/C++ editors dim code in a false `#if`.
+ */
+
+import {
+    _Connection,
+    TextDocuments,
+    Range,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getDocumentSettings, symbolTables } from './workspace';
+
+export interface InactiveRegionsParams {
+    uri: string;
+    regions: Range[];
+}
+
+let connection: _Connection;
+let documents: TextDocuments<TextDocument>;
+
+export function initializeInactiveRegions(conn: _Connection, docs: TextDocuments<TextDocument>) {
+    connection = conn;
+    documents = docs;
+}
+
+/**
+ * Sends the `ca65/inactiveRegions` notification for a document, if it is open.
+ * @param uri The document whose symbol table was updated.
+ */
+export async function publishInactiveRegions(uri: string) {
+    if (!documents.get(uri)) return;
+
+    const settings = await getDocumentSettings(uri);
+    const params: InactiveRegionsParams = {
+        uri,
+        regions: settings.dimInactiveRegions ? symbolTables.get(uri)?.inactiveRanges ?? [] : []
+    };
+    connection.sendNotification('ca65/inactiveRegions', params);
+}
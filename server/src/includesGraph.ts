@@ -47,6 +47,12 @@ export class IncludesGraph {
     // Traversal helpers as generators
     // -----------------------------
 
+    public *getIncludes(uri: string): Generator<string> {
+        for (const node of this.nodes.get(uri)?.includes ?? []) {
+            yield node.uri;
+        }
+    }
+
     public *getTransitiveDependencies(uri: string): Generator<string> {
         yield* this.getTransitiveLinks(uri, 'includes');
     }
@@ -85,6 +91,28 @@ export class IncludesGraph {
         }
     }
 
+    /**
+     * Orders files so that each comes after the files among them it includes, directly or not,
+     * where the includes have no cycle. Files keep their order otherwise.
+     */
+    public sortByIncludes(uris: string[]): string[] {
+        const wanted = new Set(uris);
+        const visited = new Set<string>();
+        const sorted: string[] = [];
+        const visit = (uri: string) => {
+            if (visited.has(uri)) return;
+            visited.add(uri);
+            for (const dependency of this.getIncludes(uri)) {
+                visit(dependency);
+            }
+            if (wanted.has(uri)) sorted.push(uri);
+        };
+        for (const uri of uris) {
+            visit(uri);
+        }
+        return sorted;
+    }
+
     public isTranslationUnitRoot(uri: string): boolean {
         const node = this.nodes.get(uri);
         if (!node) return false;
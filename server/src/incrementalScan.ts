@@ -0,0 +1,348 @@
+/**
+ * This module rescans only the lines of a document that an edit affects. The scanner records a
+ * checkpoint at the start of each top-level block, i.e. each line outside of any scope, macro
+ * definition, conditional, or .repeat block. The blocks from the one the edit starts in are taken
+ * out of the symbol table and rescanned until the scanner is in the same state as at the start of
+ * a block after the edit. The blocks from there on are put back with their positions moved, except
+ * those that looked up a name the rescanned lines define differently, which are rescanned too.
+ */
+
+import { Position, Range } from 'vscode-languageserver-types';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { scanLines } from './documentScanner';
+import { getDocumentSettings, symbolTables } from './workspace';
+import {
+    Macro,
+    ReferenceInfo,
+    ScanCheckpoint,
+    Scope,
+    SymbolKind,
+    SymbolTable,
+    SymbolTableEntity,
+} from './symbolTable';
+
+/**
+ * The names an incremental rescan may have changed the meaning of.
+ */
+export interface RescanChanges {
+    // Names defined in the rescanned lines, before or after the edit.
+    definedNames: Set<string>;
+    // Those, and the names referenced in the rescanned lines.
+    touchedNames: Set<string>;
+}
+
+// Scopes named after the line they start on.
+const LINE_NAME_REGEX = /^<(anon|repeat) line (\d+)>$/;
+
+/**
+ * Brings the symbol table of a document up to date by rescanning the lines that changed since it
+ * was scanned, and the blocks that depend on them.
+ * @returns The names whose meaning may have changed, or undefined if the table must be rebuilt
+ *          with a full scan instead.
+ */
+export async function rescanDocument(
+    document: TextDocument,
+    symbolTable: SymbolTable
+): Promise<RescanChanges | undefined> {
+    const settings = await getDocumentSettings(document.uri);
+    // Another update may have replaced the table in the meantime. A table scanned with other
+    // settings, such as those of another link target, is rebuilt too.
+    if (
+        symbolTables.get(document.uri) !== symbolTable
+        || symbolTable.checkpoints.length === 0
+        || symbolTable.scannedSettings !== JSON.stringify(settings)
+    ) {
+        return undefined;
+    }
+
+    // The changed lines are first..oldEnd in the old text and first..newEnd in the new one.
+    const oldLines = symbolTable.scannedText.split(/\r\n|\r|\n/);
+    const newLines = document.getText().split(/\r\n|\r|\n/);
+    const commonLength = Math.min(oldLines.length, newLines.length);
+    let first = 0;
+    while (first < commonLength && oldLines[first] === newLines[first]) first++;
+    let common = 0;
+    while (
+        common < commonLength - first
+        && oldLines[oldLines.length - 1 - common] === newLines[newLines.length - 1 - common]
+    ) {
+        common++;
+    }
+    // The scanner sees the line break that ends each line but the last, e.g. as the end of a
+    // label's range, so an edit at the end of the text changes the line that was or is now last.
+    if (common === 0) first = Math.min(first, commonLength - 1);
+    const oldEnd = oldLines.length - common;
+    const newEnd = newLines.length - common;
+    const delta = newEnd - oldEnd;
+
+    const changes: RescanChanges = { definedNames: new Set(), touchedNames: new Set() };
+    if (oldEnd === first && newEnd === first) {
+        symbolTable.scannedText = document.getText();
+        return changes;
+    }
+
+    let startIndex = symbolTable.checkpoints.length - 1;
+    while (startIndex > 0 && symbolTable.checkpoints[startIndex].line > first) startIndex--;
+
+    // While it is spliced, the table must not be used to resolve names: the resolutions would be
+    // cached against a half-scanned table.
+    symbolTables.delete(document.uri);
+    try {
+        const finalSegmentAddressSizes = symbolTable.segmentAddressSizes;
+        const detached = symbolTable.detachBlocks(startIndex);
+        const { checkpoints } = detached;
+        const start = checkpoints[0];
+
+        // The range end and kind labels and cheap local regions ended up with, which the scanner
+        // resets when it resumes with them.
+        const finals: Map<SymbolTableEntity, { end: Position, kind?: SymbolKind }> = new Map();
+        for (const { label, cheapLocalScope } of checkpoints) {
+            if (label && !finals.has(label)) finals.set(label, { end: label.range.end, kind: label.kind });
+            if (!finals.has(cheapLocalScope)) finals.set(cheapLocalScope, { end: cheapLocalScope.range.end });
+        }
+
+        // Positions of the blocks that are put back are moved in place, once each, since ranges
+        // share them. The line each had before is kept.
+        const shifted: Map<Position, number> = new Map();
+        const toNewPosition = (position: Position): Position | undefined => {
+            if (shifted.has(position) || position.line < first) return position;
+            if (position.line < oldEnd) return undefined;
+            return { line: position.line + delta, character: position.character };
+        }
+        const shiftPosition = (position: Position) => {
+            if (delta === 0 || shifted.has(position)) return;
+            shifted.set(position, position.line);
+            if (position.line >= oldEnd) position.line += delta;
+        }
+        const shiftRange = (range: Range) => {
+            shiftPosition(range.start);
+            shiftPosition(range.end);
+        }
+        const shiftEntity = (entity: SymbolTableEntity) => {
+            if (delta === 0) return;
+            const match = entity instanceof Scope && entity.definition.start.line >= oldEnd
+                && !shifted.has(entity.definition.start) ? LINE_NAME_REGEX.exec(entity.name) : null;
+            shiftRange(entity.definition);
+            shiftRange(entity.range);
+            if (entity instanceof Scope) {
+                if (match) entity.rename(`<${match[1]} line ${Number(match[2]) + delta}>`);
+                for (const child of [...entity.getSymbols(), ...entity.getImports(), ...entity.getChildScopes()]) {
+                    shiftEntity(child);
+                }
+            } else if (entity instanceof Macro) {
+                shiftEntity(entity.localScope);
+            }
+        }
+
+        // Labels and cheap local regions of the old scan that the rescan replaced with its own.
+        const replaced: Map<SymbolTableEntity, SymbolTableEntity> = new Map();
+        const remap = <T extends SymbolTableEntity>(entity: T): T => (replaced.get(entity) as T | undefined) ?? entity;
+
+        const isSameEntity = (entity: SymbolTableEntity | undefined, old: SymbolTableEntity | undefined) => {
+            if ((old && remap(old)) === entity) return true;
+            if (!entity || !old || entity.name !== old.name) return false;
+            const position = toNewPosition(old.definition.start);
+            return position?.line === entity.definition.start.line
+                && position.character === entity.definition.start.character;
+        }
+
+        const getPlainState = (checkpoint: ScanCheckpoint) => JSON.stringify([
+            checkpoint.segment,
+            checkpoint.segmentInherited,
+            checkpoint.segmentStack,
+            [...checkpoint.segmentAddressSizes].sort(),
+            checkpoint.features,
+            checkpoint.cpu,
+            checkpoint.cpuStack,
+            checkpoint.registerWidths,
+            checkpoint.smartMode,
+            checkpoint.labelKind,
+            checkpoint.labelKindSet,
+        ]);
+
+        // Anonymous labels are numbered through the file, so only their count may differ.
+        const isSameState = (checkpoint: ScanCheckpoint, old: ScanCheckpoint) =>
+            getPlainState(checkpoint) === getPlainState(old)
+            && isSameEntity(checkpoint.label, old.label)
+            && isSameEntity(checkpoint.cheapLocalScope, old.cheapLocalScope);
+
+        const addNames = (entity: SymbolTableEntity, names: Set<string>) => {
+            names.add(entity.name);
+            if (!(entity instanceof Scope)) return;
+            for (const child of [...entity.getSymbols(), ...entity.getImports(), ...entity.getChildScopes()]) {
+                addNames(child, names);
+            }
+        }
+
+        const addReferenceNames = (reference: ReferenceInfo) => {
+            changes.touchedNames.add(reference.name);
+            for (const qualifier of reference.qualifiers) {
+                changes.touchedNames.add(qualifier);
+            }
+        }
+
+        const dropBlocks = (from: number, to: number) => {
+            const part = detached.getPart(from, to);
+            for (const entity of part.entities) {
+                addNames(entity, changes.definedNames);
+            }
+            for (const reference of part.references) {
+                addReferenceNames(reference);
+            }
+        }
+
+        // The names defined and referenced by the lines scanned since resuming.
+        let resumeLine = start.line;
+        let resumeLengths = { ...start.lengths };
+        const addScannedNames = () => {
+            const rootScope = symbolTable.getRootScope();
+            const entities: SymbolTableEntity[] = [
+                ...rootScope.getSymbols(),
+                ...rootScope.getImports(),
+                ...rootScope.getChildScopes(),
+                ...symbolTable.getAllMacros(),
+            ];
+            for (const region of symbolTable.cheapLocalRegions.slice(Math.max(resumeLengths.cheapLocalRegions - 1, 0))) {
+                entities.push(...region.scope.getSymbols());
+            }
+            for (const entity of entities) {
+                if (entity.definition.start.line >= resumeLine) addNames(entity, changes.definedNames);
+            }
+            for (const reference of symbolTable.references.slice(resumeLengths.references)) {
+                addReferenceNames(reference);
+            }
+        }
+
+        let anonymousLabelShift = 0;
+        let synced: { checkpoint: ScanCheckpoint, old: ScanCheckpoint } | undefined;
+
+        const shiftCheckpoint = (checkpoint: ScanCheckpoint) => {
+            // Where the label ended before the scanner got back in sync, the scanner knows better.
+            const { labelEnd } = checkpoint;
+            if (
+                synced && labelEnd && checkpoint.label === synced.old.label
+                && (shifted.get(labelEnd) ?? labelEnd.line) < synced.old.line
+            ) {
+                checkpoint.labelEnd = synced.checkpoint.labelEnd;
+                checkpoint.labelKind = synced.checkpoint.labelKind;
+            } else if (labelEnd) {
+                shiftPosition(labelEnd);
+            }
+            checkpoint.line += delta;
+            checkpoint.label = checkpoint.label && remap(checkpoint.label);
+            checkpoint.cheapLocalScope = remap(checkpoint.cheapLocalScope);
+            checkpoint.anonymousLabelIndex += anonymousLabelShift;
+        }
+
+        const putBackBlocks = (from: number, to: number) => {
+            if (from === to) return;
+            const part = detached.getPart(from, to);
+            for (const reference of part.references) {
+                shiftRange(reference.location);
+                reference.scope = remap(reference.scope);
+                reference.callingEntity = reference.callingEntity && remap(reference.callingEntity);
+            }
+            part.anonymousLabelLines = part.anonymousLabelLines.map(line => line + delta);
+            for (const entity of [...part.imports, ...part.exports, ...part.entities]) {
+                shiftEntity(entity);
+                if (entity.scope) entity.scope = remap(entity.scope);
+            }
+            for (const region of part.cheapLocalRegions) {
+                shiftEntity(region.scope);
+                region.owner = region.owner && remap(region.owner);
+                // The owner may be an anonymous scope named after its line.
+                if (region.owner) region.scope.rename(`<cheap locals of ${region.owner.name}>`);
+            }
+            for (const change of [...part.featureChanges, ...part.cpuChanges]) {
+                change.line += delta;
+            }
+            for (const hint of part.registerWidthHints) {
+                shiftPosition(hint.position);
+            }
+            for (const range of [
+                ...part.diagnostics.map(diagnostic => diagnostic.range),
+                ...part.anonymousStructRanges,
+                ...part.conditionalBlocks.flatMap(block => [block.range, ...block.branches.map(branch => branch.range)]),
+                ...part.inactiveRanges,
+                ...part.segmentReferences.map(reference => reference.range),
+            ]) {
+                shiftRange(range);
+            }
+            for (const reference of part.anonymousLabelReferences) {
+                shiftRange(reference.range);
+                reference.index += anonymousLabelShift;
+            }
+            part.cCommentLines = part.cCommentLines.map(line => line + delta);
+            for (const checkpoint of checkpoints.slice(from, to)) {
+                shiftCheckpoint(checkpoint);
+            }
+            symbolTable.reattachBlocks(checkpoints.slice(from, to), part);
+        }
+
+        // The label and cheap local region in effect are the scanner's own; they take over the
+        // old ones, including how far the old blocks extended them.
+        const takeOver = (entity: SymbolTableEntity | undefined, old: SymbolTableEntity | undefined, line: number) => {
+            if (!entity || !old) return;
+            if (entity !== old) replaced.set(old, entity);
+            const final = finals.get(old);
+            const end = final && toNewPosition(final.end);
+            if (!final || !end || end.line < line) return;
+            shiftPosition(final.end);
+            entity.range.end = final.end;
+            if (final.kind && 'kind' in entity) Object.assign(entity, { kind: final.kind });
+        }
+
+        let next = 0;
+        const onCheckpoint = (checkpoint: ScanCheckpoint): ScanCheckpoint | undefined => {
+            if (checkpoint.line < newEnd) return checkpoint;
+
+            // Blocks that start before this line were replaced by the lines just scanned.
+            const oldLine = checkpoint.line - delta;
+            const dropped = next;
+            while (next < checkpoints.length && checkpoints[next].line < oldLine) next++;
+            dropBlocks(dropped, next);
+            const old = checkpoints[next];
+            if (!old || old.line !== oldLine || !isSameState(checkpoint, old)) {
+                return checkpoint;
+            }
+
+            addScannedNames();
+            takeOver(checkpoint.label, old.label, checkpoint.line);
+            takeOver(checkpoint.cheapLocalScope, old.cheapLocalScope, checkpoint.line);
+            anonymousLabelShift = checkpoint.anonymousLabelIndex - old.anonymousLabelIndex;
+            synced = { checkpoint, old: { ...old } };
+
+            let end = next;
+            while (end < checkpoints.length && ![...checkpoints[end].lookups].some(name => changes.definedNames.has(name))) {
+                end++;
+            }
+            putBackBlocks(next, end);
+            next = end;
+            if (next === checkpoints.length) return undefined;
+
+            // The next block looked up a name that changed, so it is rescanned.
+            const resume = checkpoints[next];
+            dropBlocks(next, next + 1);
+            next++;
+            shiftCheckpoint(resume);
+            resumeLine = resume.line;
+            resumeLengths = symbolTable.getScannedListLengths();
+            return resume;
+        }
+
+        if (scanLines(document, symbolTable, settings, start, onCheckpoint)) {
+            dropBlocks(next, checkpoints.length);
+            addScannedNames();
+        } else {
+            symbolTable.getRootScope().range.end = { line: document.lineCount, character: 0 };
+            symbolTable.segmentAddressSizes = finalSegmentAddressSizes;
+        }
+    } finally {
+        symbolTables.set(document.uri, symbolTable);
+    }
+
+    for (const name of changes.definedNames) {
+        changes.touchedNames.add(name);
+    }
+    return changes;
+}
@@ -0,0 +1,224 @@
+/**
+ * This module keeps the symbol tables of the workspace files in a cache in the extension's storage
+ * directory, so that reloading a window only rescans the files that changed since. A table is
+ * reused if its file still has the modification time and size, or else the content hash, and the
+ * settings it was scanned with. The includes graph and exports map are rebuilt from the tables.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as v8 from 'v8';
+import { _Connection } from 'vscode-languageserver/node';
+import { URI } from 'vscode-uri';
+import { getDocumentSettings, symbolTables } from './workspace';
+import { SymbolTable } from './symbolTable';
+import { deserializeSymbolTable, serializeSymbolTable } from './symbolTableSerialization';
+
+// Bump whenever what the scanner stores in a SymbolTable changes.
+const CACHE_VERSION = 4;
+const CACHE_DIRECTORY_NAME = 'index-cache';
+
+/**
+ * The options the client passes when initializing the server.
+ */
+export interface IndexCacheOptions {
+    // The directory to keep the cache in. Without it, nothing is cached.
+    storagePath?: string;
+    // The version of the extension. A cache written by another version is ignored.
+    extensionVersion?: string;
+}
+
+interface CacheEntry {
+    mtime: number;
+    size: number;
+    hash: string;
+    // The settings the file was scanned with, as JSON.
+    settings: string;
+}
+
+// The contents of the cache file of one source file.
+interface CachedFile {
+    version: number;
+    extensionVersion: string;
+    uri: string;
+    entry: CacheEntry;
+    // The table, as serialized by serializeSymbolTable
+    table: Uint8Array;
+}
+
+let cacheDirectory: string | undefined;
+let extensionVersion = '';
+
+// The entries of the tables that are in the cache as they are.
+const cacheEntries: WeakMap<SymbolTable, CacheEntry> = new WeakMap();
+// The content hashes of loaded tables whose files were touched but didn't change.
+const loadedHashes: WeakMap<SymbolTable, string> = new WeakMap();
+// The files in the cache directory.
+const cacheFileNames: Set<string> = new Set();
+// Saves started while one is running would write the same files.
+let pendingSave: Promise<void> = Promise.resolve();
+
+export function initializeIndexCache(options: IndexCacheOptions | undefined) {
+    cacheDirectory = options?.storagePath && path.join(options.storagePath, CACHE_DIRECTORY_NAME);
+    extensionVersion = options?.extensionVersion ?? '';
+}
+
+function getContentHash(content: string): string {
+    return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+function getCacheFileName(uri: string): string {
+    return `${getContentHash(uri)}.bin`;
+}
+
+async function getSettingsKey(uri: string): Promise<string> {
+    return JSON.stringify(await getDocumentSettings(uri));
+}
+
+/**
+ * The tables of the last session, as loaded from the cache.
+ */
+export class LoadedIndexCache {
+    constructor(private files: Map<string, { entry: CacheEntry, table: SymbolTable }> = new Map()) {}
+
+    getUris(): string[] {
+        return [...this.files.keys()];
+    }
+
+    /**
+     * Returns the files a file included in the last session.
+     */
+    getIncludedFiles(uri: string): string[] {
+        return this.files.get(uri)?.table.includedFiles ?? [];
+    }
+
+    /**
+     * Returns the cached table of a file if the file and its settings didn't change since it was
+     * scanned.
+     */
+    async getSymbolTable(uri: string): Promise<SymbolTable | undefined> {
+        const cached = this.files.get(uri);
+        if (!cached || cached.entry.settings !== await getSettingsKey(uri)) return undefined;
+
+        try {
+            const filePath = URI.parse(uri).fsPath;
+            const stats = await fs.stat(filePath);
+            if (stats.mtimeMs !== cached.entry.mtime || stats.size !== cached.entry.size) {
+                // The file was touched, but may not have changed. The entry is saved again with
+                // the new time.
+                const content = await fs.readFile(filePath, 'utf-8');
+                if (getContentHash(content) !== cached.entry.hash) return undefined;
+                loadedHashes.set(cached.table, cached.entry.hash);
+                return cached.table;
+            }
+        } catch (e) {
+            return undefined;
+        }
+        cacheEntries.set(cached.table, cached.entry);
+        return cached.table;
+    }
+}
+
+/**
+ * Loads the tables of the last session. Tables written by another version are left out.
+ */
+export async function loadIndexCache(connection: _Connection): Promise<LoadedIndexCache> {
+    const files: Map<string, { entry: CacheEntry, table: SymbolTable }> = new Map();
+    cacheFileNames.clear();
+    if (!cacheDirectory) return new LoadedIndexCache(files);
+
+    let fileNames: string[];
+    try {
+        fileNames = await fs.readdir(cacheDirectory);
+    } catch (e) {
+        // There is no cache yet.
+        return new LoadedIndexCache(files);
+    }
+    for (const fileName of fileNames) {
+        cacheFileNames.add(fileName);
+        // Left over from a save that was cut short
+        if (!fileName.endsWith('.bin')) continue;
+        try {
+            const cached: CachedFile = v8.deserialize(await fs.readFile(path.join(cacheDirectory, fileName)));
+            if (cached?.version !== CACHE_VERSION || cached.extensionVersion !== extensionVersion) continue;
+            files.set(cached.uri, { entry: cached.entry, table: deserializeSymbolTable(cached.table) });
+        } catch (e) {
+            // The file was written by another version of Node, or only partly.
+            connection.console.error(`Failed to load ${fileName} from the index cache: ${e}`);
+        }
+    }
+    return new LoadedIndexCache(files);
+}
+
+/**
+ * Writes the tables of the files in `symbolTables` that changed since they were loaded from or
+ * saved to the cache, and match the file on disk. The cache files of files that are gone are
+ * deleted.
+ */
+export async function saveIndexCache(connection: _Connection) {
+    const directory = cacheDirectory;
+    if (!directory) return;
+
+    const previous = pendingSave;
+    let done = () => {};
+    pendingSave = new Promise<void>(resolve => done = resolve);
+    await previous;
+
+    try {
+        await fs.mkdir(directory, { recursive: true });
+        const keptFileNames: Set<string> = new Set();
+        for (const [uri, table] of symbolTables) {
+            if (!uri.startsWith('file:')) continue;
+            const fileName = getCacheFileName(uri);
+            keptFileNames.add(fileName);
+            if (cacheEntries.has(table)) continue;
+
+            try {
+                // Tables of files with unsaved changes don't match the file.
+                const filePath = URI.parse(uri).fsPath;
+                const stats = await fs.stat(filePath);
+                const content = await fs.readFile(filePath, 'utf-8');
+                const hash = getContentHash(content);
+                if (content !== table.scannedText && hash !== loadedHashes.get(table)) continue;
+
+                const entry: CacheEntry = {
+                    mtime: stats.mtimeMs,
+                    size: stats.size,
+                    hash,
+                    settings: table.scannedSettings,
+                };
+                // The text is only needed to rescan edits, and open documents are scanned again.
+                const savedTable = Object.assign(
+                    Object.create(SymbolTable.prototype) as SymbolTable,
+                    table,
+                    { scannedText: '' }
+                );
+                const cached: CachedFile = {
+                    version: CACHE_VERSION,
+                    extensionVersion,
+                    uri,
+                    entry,
+                    table: serializeSymbolTable(savedTable),
+                };
+                const temporaryPath = path.join(directory, `${fileName}.tmp`);
+                await fs.writeFile(temporaryPath, v8.serialize(cached));
+                await fs.rename(temporaryPath, path.join(directory, fileName));
+                cacheFileNames.add(fileName);
+                cacheEntries.set(table, entry);
+            } catch (e) {
+                // The file is gone.
+            }
+        }
+
+        for (const fileName of cacheFileNames) {
+            if (keptFileNames.has(fileName)) continue;
+            await fs.rm(path.join(directory, fileName), { force: true });
+            cacheFileNames.delete(fileName);
+        }
+    } catch (e) {
+        connection.console.error(`Failed to save the index cache: ${e}`);
+    } finally {
+        done();
+    }
+}
@@ -4,10 +4,14 @@ import {
     InlayHintParams,
     InlayHint,
     InlayHintKind,
+    Position,
+    Range,
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { getDocumentSettings, includesGraph, initializationGate, symbolTables } from './server';
-import { resolveImport } from './symbolResolver';
+import { getDocumentSettings, includesGraph, initializationGate, symbolTables } from './workspace';
+import { resolveImportCandidates } from './symbolResolver';
+import { findDebugSymbol, formatAddress, getDebugInfo } from './debugInfo';
+import { getLibraryModuleName, isLibraryUri } from './objectFiles';
 import { getRelativePath, getWorkspaceRelativePath } from './pathUtils';
 import { documentSettings } from './settings';
 
@@ -44,13 +48,17 @@ export function initializeInlayHintProvider(connection: _Connection, documents:
         // Import statement `from file` hints
         if (settings.importFromHints) {
             for (const importInfo of symbolTable.imports) {
-                const resolvedImport = resolveImport(importInfo.name, symbolTables, includesGraph);
-                if (!resolvedImport) continue;
+                // Files linked into several targets may import from a different file in each.
+                const candidates =
+                    resolveImportCandidates(importInfo.name, document.uri, symbolTables, includesGraph);
+                if (candidates.length === 0) continue;
     
-                const relativeUri = getWorkspaceRelativePath(resolvedImport.uri);
+                const relativeUris = candidates.map(candidate => isLibraryUri(candidate.uri)
+                    ? getLibraryModuleName(candidate.uri)
+                    : getWorkspaceRelativePath(candidate.uri));
     
                 inlayHints.push({
-                    label: ` from ${relativeUri}`,
+                    label: ` from ${relativeUris.join(', ')}`,
                     position: {
                         line: importInfo.definition.end.line,
                         character: importInfo.definition.end.character
@@ -61,6 +69,40 @@ export function initializeInlayHintProvider(connection: _Connection, documents:
             }
         }
 
+        // 65816 register width hints
+        if (settings.registerWidthHints) {
+            for (const { position, widths } of symbolTable.registerWidthHints) {
+                inlayHints.push({
+                    label: `A${widths.accumulator} I${widths.index}`,
+                    position,
+                    kind: InlayHintKind.Type,
+                    paddingLeft: true,
+                });
+            }
+        }
+
+        // Label address hints, from the debug info or map of the link
+        if (settings.addressHints) {
+            const debugInfo = await getDebugInfo(document.uri, settings);
+            const entities = debugInfo ? [
+                ...symbolTable.getAllDefinedEntities(),
+                ...symbolTable.cheapLocalRegions.flatMap(region => [...region.scope.getSymbols()]),
+            ] : [];
+            for (const entity of entities) {
+                const debugSymbol = findDebugSymbol(debugInfo, entity);
+                if (!debugSymbol) continue;
+                // After the colon of a label, if it has one
+                const { line, character } = entity.definition.end;
+                const colons = /^:*/.exec(document.getText(Range.create(line, character, line, character + 2)))![0];
+                inlayHints.push({
+                    label: formatAddress(debugSymbol.address),
+                    position: Position.create(line, character + colons.length),
+                    kind: InlayHintKind.Type,
+                    paddingLeft: true,
+                });
+            }
+        }
+
         return inlayHints;
     });
 }
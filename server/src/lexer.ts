@@ -0,0 +1,270 @@
+import { directiveData } from './dataManager';
+
+export enum TokenKind {
+    Identifier = "identifier",
+    CheapLocal = "cheap local",
+    Directive = "directive",
+    Number = "number",
+    String = "string",
+    Char = "char",
+    Operator = "operator",
+    ScopeSeparator = "scope separator",
+    AnonLabelRef = "anonymous label reference",
+    AddressOverride = "address override",
+    Comment = "comment",
+    Unknown = "unknown",
+}
+
+export interface Token {
+    kind: TokenKind;
+    text: string;
+    index: number;
+    // Numeric value of number and char literals.
+    value?: number;
+}
+
+/**
+ * The `.feature` switches that change how ca65 splits source into tokens.
+ */
+export interface LexerOptions {
+    // `@` and `$` may appear in identifiers after the first character.
+    atInIdentifiers?: boolean;
+    dollarInIdentifiers?: boolean;
+    // Identifiers may start with a dot, as long as they aren't a directive.
+    leadingDotInIdentifiers?: boolean;
+    // Strings may be terminated by `'` as well as `"`.
+    looseStringTerm?: boolean;
+    // A lone `$` is the program counter.
+    dollarIsPc?: boolean;
+}
+
+// Multi-character operators, longest first so that the greedy match wins.
+const OPERATORS = [
+    '&&', '||', '<<', '>>', '<=', '>=', '<>', ':=',
+    '+', '-', '*', '/', '!', '~', '<', '>', '=', '&', '|', '^',
+    '(', ')', '[', ']', '{', '}', ',', '#', ':', '\\', '.',
+];
+
+function isIdentifierStart(c: string): boolean {
+    return /[A-Za-z_]/.test(c);
+}
+
+function isIdentifierChar(c: string, options: LexerOptions = {}): boolean {
+    return /[A-Za-z0-9_]/.test(c)
+        || (c === '@' && !!options.atInIdentifiers)
+        || (c === '$' && !!options.dollarInIdentifiers);
+}
+
+function isDigit(c: string): boolean {
+    return c >= '0' && c <= '9';
+}
+
+function isHexDigit(c: string): boolean {
+    return /[0-9A-Fa-f]/.test(c);
+}
+
+/**
+ * Reads a number literal starting at `start`. Supports `$hex`, `%binary`, decimal, and the
+ * `h`/`b` suffix forms (e.g. `0FFh`, `0101b`).
+ * @returns The end index and value of the literal, or undefined if there is no literal here.
+ */
+function readNumber(line: string, start: number): { end: number, value: number } | undefined {
+    const c = line.charAt(start);
+    let end = start + 1;
+    if (c === '$') {
+        while (end < line.length && isHexDigit(line.charAt(end))) end++;
+        if (end === start + 1) return undefined;
+        return { end, value: parseInt(line.slice(start + 1, end), 16) };
+    }
+    if (c === '%') {
+        while (end < line.length && '01'.includes(line.charAt(end))) end++;
+        if (end === start + 1) return undefined;
+        return { end, value: parseInt(line.slice(start + 1, end), 2) };
+    }
+    if (!isDigit(c)) return undefined;
+
+    // Read all hex digits, then decide on the radix from the suffix.
+    while (end < line.length && isHexDigit(line.charAt(end))) end++;
+    const digits = line.slice(start, end);
+    const suffix = line.charAt(end);
+    if ((suffix === 'h' || suffix === 'H') && !isIdentifierChar(line.charAt(end + 1))) {
+        return { end: end + 1, value: parseInt(digits, 16) };
+    }
+    if (/^[01]+[bB]$/.test(digits)) {
+        return { end, value: parseInt(digits.slice(0, -1), 2) };
+    }
+
+    // Plain decimal; stop at the first non-decimal digit.
+    end = start;
+    while (end < line.length && isDigit(line.charAt(end))) end++;
+    return { end, value: parseInt(line.slice(start, end), 10) };
+}
+
+/**
+ * Splits a single physical line of ca65 source into tokens. Token indexes are character offsets
+ * into `line`, so callers can build ranges directly from them.
+ * @param line The line text, with or without its trailing newline.
+ * @param options The features in effect for the line.
+ * @returns The tokens of the line. A comment, if any, is always the last token.
+ */
+export function tokenizeLine(line: string, options: LexerOptions = {}): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < line.length) {
+        const c = line.charAt(i);
+
+        if (c === ' ' || c === '\t' || c === '\r' || c === '\n') {
+            i++;
+            continue;
+        }
+
+        if (c === ';') {
+            tokens.push({ kind: TokenKind.Comment, text: line.slice(i).replace(/\r?\n$/, ''), index: i });
+            break;
+        }
+
+        if (c === '"') {
+            let end = i + 1;
+            while (end < line.length && line.charAt(end) !== '"'
+                && !(options.looseStringTerm && line.charAt(end) === '\'')) end++;
+            end = end < line.length ? end + 1 : line.replace(/\r?\n$/, '').length;
+            tokens.push({ kind: TokenKind.String, text: line.slice(i, end), index: i });
+            i = end;
+            continue;
+        }
+
+        if (c === '\'') {
+            // A char literal is a single character with an optional closing quote.
+            let end = Math.min(i + 2, line.length);
+            if (line.charAt(end) === '\'') end++;
+            const text = line.slice(i, end);
+            tokens.push({ kind: TokenKind.Char, text, index: i, value: text.charCodeAt(1) || 0 });
+            i = end;
+            continue;
+        }
+
+        const number = readNumber(line, i);
+        if (number) {
+            tokens.push({
+                kind: TokenKind.Number,
+                text: line.slice(i, number.end),
+                index: i,
+                value: number.value
+            });
+            i = number.end;
+            continue;
+        }
+
+        if (isIdentifierStart(c) || ((c === '@' || c === '.') && isIdentifierStart(line.charAt(i + 1)))) {
+            let end = i + 1;
+            while (end < line.length && isIdentifierChar(line.charAt(end), options)) end++;
+            const text = line.slice(i, end);
+
+            // `a:`, `f:` and `z:` are address size overrides, never labels.
+            if (text.length === 1 && 'afzAFZ'.includes(text) && line.charAt(end) === ':'
+                && line.charAt(end + 1) !== ':' && line.charAt(end + 1) !== '=') {
+                tokens.push({ kind: TokenKind.AddressOverride, text: line.slice(i, end + 1), index: i });
+                i = end + 1;
+                continue;
+            }
+
+            let kind = TokenKind.Identifier;
+            if (c === '@') kind = TokenKind.CheapLocal;
+            if (c === '.' && !(options.leadingDotInIdentifiers && !directiveData[text.slice(1).toUpperCase()])) {
+                kind = TokenKind.Directive;
+            }
+            tokens.push({ kind, text, index: i });
+            i = end;
+            continue;
+        }
+
+        if (c === ':') {
+            const next = line.charAt(i + 1);
+            if (next === ':') {
+                tokens.push({ kind: TokenKind.ScopeSeparator, text: '::', index: i });
+                i += 2;
+                continue;
+            }
+            // Anonymous label references are runs of `-`/`<` (backward) or `+`/`>` (forward).
+            const direction = next === '-' || next === '<' ? '-<' : next === '+' || next === '>' ? '+>' : '';
+            if (direction) {
+                let end = i + 1;
+                while (end < line.length && direction.includes(line.charAt(end))) end++;
+                tokens.push({ kind: TokenKind.AnonLabelRef, text: line.slice(i, end), index: i });
+                i = end;
+                continue;
+            }
+        }
+
+        if (c === '$' && options.dollarIsPc) {
+            tokens.push({ kind: TokenKind.Operator, text: c, index: i });
+            i++;
+            continue;
+        }
+
+        const operator = OPERATORS.find(op => line.startsWith(op, i));
+        if (operator) {
+            tokens.push({ kind: TokenKind.Operator, text: operator, index: i });
+            i += operator.length;
+            continue;
+        }
+
+        tokens.push({ kind: TokenKind.Unknown, text: c, index: i });
+        i++;
+    }
+
+    return tokens;
+}
+
+/**
+ * Blanks out the `/* ... *\/` comments of `.feature c_comments`, which may span lines, so that the
+ * line can be tokenized as usual with all offsets intact.
+ * @param line The line text.
+ * @param inComment Whether the line starts inside a comment.
+ * @returns The masked line, and whether the next line starts inside a comment.
+ */
+export function maskCComments(line: string, inComment: boolean): { text: string, inComment: boolean } {
+    let text = '';
+    let i = 0;
+    while (i < line.length) {
+        const c = line.charAt(i);
+        if (inComment) {
+            const end = line.indexOf('*/', i);
+            const next = end < 0 ? line.length : end + 2;
+            // Keep line breaks so that the line still ends the same way.
+            text += line.slice(i, next).replace(/[^\r\n]/g, ' ');
+            inComment = end < 0;
+            i = next;
+        } else if (c === '/' && line.charAt(i + 1) === '*') {
+            inComment = true;
+        } else if (c === ';') {
+            text += line.slice(i);
+            break;
+        } else if (c === '"') {
+            const end = line.indexOf('"', i + 1);
+            const next = end < 0 ? line.length : end + 1;
+            text += line.slice(i, next);
+            i = next;
+        } else {
+            text += c;
+            i++;
+        }
+    }
+    return { text, inComment };
+}
+
+/**
+ * Returns the tokens of a line without its trailing comment.
+ */
+export function stripComment(tokens: Token[]): Token[] {
+    const last = tokens[tokens.length - 1];
+    return last?.kind === TokenKind.Comment ? tokens.slice(0, -1) : tokens;
+}
+
+/**
+ * Returns the index just past the end of a token.
+ */
+export function tokenEnd(token: Token): number {
+    return token.index + token.text.length;
+}
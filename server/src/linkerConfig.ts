@@ -0,0 +1,215 @@
+/**
+ * This module parses ld65 linker configs: the memory areas of `MEMORY {}`, and the segments of
+ * `SEGMENTS {}` with the memory areas they are loaded into and run from. The config of a file is
+ * that of the first link target it belongs to, or the `ca65.linkerConfig` setting.
+ */
+
+import * as fs from 'fs/promises';
+import { Range } from 'vscode-languageserver-types';
+import { URI } from 'vscode-uri';
+import { getWorkspaceRelativePath, resolveWorkspacePath } from './pathUtils';
+import { Ca65Settings } from './settings';
+
+/**
+ * An attribute of an entry, e.g. `start = $8000`.
+ */
+export interface LinkerConfigAttribute {
+    // The text of the value, which may be an expression
+    value: string;
+    range: Range;
+}
+
+/**
+ * A memory area, segment, or other entry of a section of the config.
+ */
+export interface LinkerConfigEntry {
+    name: string;
+    range: Range;
+    // By the lowercase name of the attribute
+    attributes: Map<string, LinkerConfigAttribute>;
+}
+
+export interface LinkerConfig {
+    uri: string;
+    memoryAreas: Map<string, LinkerConfigEntry>;
+    segments: Map<string, LinkerConfigEntry>;
+}
+
+interface ConfigToken {
+    text: string;
+    // Offsets in the text of the config
+    start: number;
+    end: number;
+    range: Range;
+}
+
+// Parsed configs by path, with the modification time of the file they were parsed from
+const configCache: Map<string, { mtimeMs: number, config: LinkerConfig }> = new Map();
+
+/**
+ * Splits the text of a config into words, strings, and the punctuation `{ } : ; , =`, leaving out
+ * `#` comments.
+ */
+function tokenizeLinkerConfig(text: string): ConfigToken[] {
+    const tokens: ConfigToken[] = [];
+    let line = 0;
+    let lineStart = 0;
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        if (char === '\n') {
+            line++;
+            lineStart = ++i;
+            continue;
+        }
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+        if (char === '#') {
+            while (i < text.length && text[i] !== '\n') i++;
+            continue;
+        }
+
+        const start = i;
+        if (char === '"') {
+            i++;
+            while (i < text.length && text[i] !== '"' && text[i] !== '\n') i++;
+            if (text[i] === '"') i++;
+        } else if ('{}:;,='.includes(char)) {
+            i++;
+        } else {
+            while (i < text.length && !/[\s{}:;,="#]/.test(text[i])) i++;
+        }
+        tokens.push({
+            text: text.slice(start, i),
+            start,
+            end: i,
+            range: Range.create(line, start - lineStart, line, i - lineStart),
+        });
+    }
+    return tokens;
+}
+
+/**
+ * Parses an ld65 config. Parsing is lenient: what can't be read is skipped, since ld65 reports the
+ * errors of the config when linking.
+ */
+export function parseLinkerConfig(uri: string, text: string): LinkerConfig {
+    const config: LinkerConfig = { uri, memoryAreas: new Map(), segments: new Map() };
+    const tokens = tokenizeLinkerConfig(text);
+    let i = 0;
+    const isPunctuation = (index: number, punctuation: string) => tokens[index]?.text === punctuation;
+
+    while (i < tokens.length) {
+        // SECTION { entries }
+        const section = tokens[i].text.toLowerCase();
+        if (!isPunctuation(i + 1, '{')) {
+            i++;
+            continue;
+        }
+        i += 2;
+        const entries = section === 'memory' ? config.memoryAreas
+            : section === 'segments' ? config.segments
+            : undefined;
+
+        while (i < tokens.length && !isPunctuation(i, '}')) {
+            // NAME: attribute = value, attribute = value;
+            const nameToken = tokens[i];
+            if (!isPunctuation(i + 1, ':')) {
+                i++;
+                continue;
+            }
+            i += 2;
+            const entry: LinkerConfigEntry = {
+                name: nameToken.text.replace(/"/g, ''),
+                range: nameToken.range,
+                attributes: new Map(),
+            };
+            while (i < tokens.length && !isPunctuation(i, ';') && !isPunctuation(i, '}')) {
+                if (isPunctuation(i, ',') || !isPunctuation(i + 1, '=')) {
+                    i++;
+                    continue;
+                }
+                const attributeName = tokens[i].text.toLowerCase();
+                i += 2;
+                // The value ends at a comma, a semicolon, or the next attribute, since ld65 doesn't
+                // require commas between attributes.
+                const valueStart = i;
+                while (
+                    i < tokens.length
+                    && !['{', '}', ';', ','].includes(tokens[i].text)
+                    && !isPunctuation(i + 1, '=')
+                ) {
+                    i++;
+                }
+                if (i > valueStart) {
+                    entry.attributes.set(attributeName, {
+                        value: text.slice(tokens[valueStart].start, tokens[i - 1].end).replace(/\s+/g, ' '),
+                        range: Range.create(tokens[valueStart].range.start, tokens[i - 1].range.end),
+                    });
+                }
+            }
+            if (isPunctuation(i, ';')) i++;
+            if (entries && !entries.has(entry.name)) entries.set(entry.name, entry);
+        }
+        i++;
+    }
+    return config;
+}
+
+/**
+ * Returns the linker config of a file, parsed from the file its settings name. Configs are parsed
+ * again when their file changes.
+ * @returns The config, or undefined if there is none or it can't be read.
+ */
+export async function getLinkerConfig(uri: string, settings: Ca65Settings): Promise<LinkerConfig | undefined> {
+    if (!settings.linkerConfig) return undefined;
+    const configPath = resolveWorkspacePath(uri, settings.linkerConfig);
+
+    try {
+        const { mtimeMs } = await fs.stat(configPath);
+        const cached = configCache.get(configPath);
+        if (cached?.mtimeMs === mtimeMs) return cached.config;
+
+        const text = await fs.readFile(configPath, 'utf-8');
+        const config = parseLinkerConfig(URI.file(configPath).toString(), text);
+        configCache.set(configPath, { mtimeMs, config });
+        return config;
+    } catch (e) {
+        configCache.delete(configPath);
+        return undefined;
+    }
+}
+
+/**
+ * Builds the hover text of a segment: the memory areas it is loaded into and run from, with their
+ * addresses, and its type.
+ */
+export function getSegmentMarkdown(config: LinkerConfig, segment: LinkerConfigEntry): string {
+    const describeArea = (attribute: string) => {
+        const areaName = segment.attributes.get(attribute)?.value;
+        if (!areaName) return undefined;
+        const area = config.memoryAreas.get(areaName);
+        const start = area?.attributes.get('start')?.value;
+        const size = area?.attributes.get('size')?.value;
+        let description = `\`${areaName}\``;
+        if (start) description += ` at \`${start}\``;
+        if (size) description += `, size \`${size}\``;
+        return description;
+    }
+
+    const lines = [`**Segment** \`${segment.name}\` in \`${getWorkspaceRelativePath(config.uri) ?? config.uri}\``, ''];
+    const load = describeArea('load');
+    const run = describeArea('run');
+    if (load) lines.push(`- Load: ${load}`);
+    if (run && segment.attributes.get('run')?.value !== segment.attributes.get('load')?.value) {
+        lines.push(`- Run: ${run}`);
+    }
+    for (const attribute of ['start', 'offset', 'align']) {
+        const value = segment.attributes.get(attribute)?.value;
+        if (value) lines.push(`- ${attribute[0].toUpperCase()}${attribute.slice(1)}: \`${value}\``);
+    }
+    lines.push(`- Type: \`${segment.attributes.get('type')?.value ?? 'ro'}\``);
+    return lines.join('\n');
+}
@@ -0,0 +1,59 @@
+/**
+ * This module provides ca65's built-in macro packages (`.macpack`). Their sources are bundled with
+ * the server and indexed as read-only virtual documents, which files that use `.macpack` include
+ * in their translation unit. The client shows them through the `ca65/macpackSource` request.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { _Connection, Logger } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { scanDocument } from './documentScanner';
+import { symbolTables } from './workspace';
+
+export const MACPACK_SCHEME = 'ca65-macpack';
+
+export const MACPACK_NAMES = ['apple2', 'atari', 'cbm', 'cpu', 'generic', 'longbranch', 'module'];
+
+const macpackDocuments: Map<string, TextDocument> = new Map();
+
+export function initializeMacpacks(connection: _Connection) {
+    connection.onRequest('ca65/macpackSource', ({ uri }: { uri: string }) => {
+        return macpackDocuments.get(uri)?.getText();
+    });
+}
+
+/**
+ * Returns the URI of the virtual document of a macro package, or undefined if there is no such
+ * package.
+ */
+export function getMacpackUri(name: string): string | undefined {
+    const packageName = name.toLowerCase();
+    return MACPACK_NAMES.includes(packageName) ? `${MACPACK_SCHEME}:/${packageName}.mac` : undefined;
+}
+
+export function isMacpackUri(uri: string): boolean {
+    return uri.startsWith(`${MACPACK_SCHEME}:`);
+}
+
+export function getMacpackDocument(uri: string): TextDocument | undefined {
+    return macpackDocuments.get(uri);
+}
+
+/**
+ * Loads and indexes the bundled macro packages. They must be indexed before the files that use
+ * them, so that invocations of their macros can be expanded.
+ */
+export async function loadMacpacks(console: Logger) {
+    for (const name of MACPACK_NAMES) {
+        const uri = getMacpackUri(name)!;
+        try {
+            const content = await fs.readFile(path.join(__dirname, '..', 'data', 'macpack', `${name}.mac`), 'utf-8');
+            const document = TextDocument.create(uri, 'ca65', 0, content);
+            macpackDocuments.set(uri, document);
+            symbolTables.set(uri, await scanDocument(document));
+        } catch (e) {
+            console.error(`Failed to load macro package ${name}: ${e}`);
+        }
+    }
+}
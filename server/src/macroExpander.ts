@@ -0,0 +1,131 @@
+import { Macro } from './symbolTable';
+import { LexerOptions, Token, TokenKind, stripComment, tokenEnd, tokenizeLine } from './lexer';
+
+/**
+ * A line of a macro expansion. `columns` maps each character of `text` to the column of the
+ * invocation line it was copied from, or undefined if it came from the macro body.
+ */
+export interface ExpandedLine {
+    text: string;
+    columns: (number | undefined)[];
+}
+
+export interface MacroExpansion {
+    lines: ExpandedLine[];
+    // The names the `.local` symbols were renamed to.
+    localNames: string[];
+}
+
+interface MacroArgument {
+    text: string;
+    index: number;
+}
+
+/**
+ * Splits the arguments of a macro invocation the way ca65 does: on commas, except inside curly
+ * braces, which are removed.
+ * @param tokens The tokens after the macro name.
+ * @param lineText The text of the invocation line.
+ */
+export function parseMacroArguments(tokens: Token[], lineText: string): MacroArgument[] {
+    const args: MacroArgument[] = [];
+    let current: Token[] = [];
+    let inBraces = false;
+
+    const finishArgument = () => {
+        const first = current[0];
+        const last = current[current.length - 1];
+        args.push(first
+            ? { text: lineText.slice(first.index, tokenEnd(last)), index: first.index }
+            : { text: '', index: lineText.length });
+        current = [];
+    };
+
+    for (const token of tokens) {
+        const isOperator = token.kind === TokenKind.Operator;
+        if (inBraces) {
+            if (isOperator && token.text === '}') {
+                inBraces = false;
+            } else {
+                current.push(token);
+            }
+        } else if (isOperator && token.text === '{' && current.length === 0) {
+            inBraces = true;
+        } else if (isOperator && token.text === ',') {
+            finishArgument();
+        } else {
+            current.push(token);
+        }
+    }
+    if (tokens.length > 0) finishArgument();
+
+    return args;
+}
+
+/**
+ * Expands an invocation of a `.macro` style macro: substitutes the arguments for the parameters,
+ * `.paramcount` for the number of arguments, and `.local` symbols for names that don't clash with
+ * other expansions.
+ * @param macro The macro to expand.
+ * @param argTokens The tokens after the macro name in the invocation.
+ * @param lineText The text of the invocation line.
+ * @param options The features in effect at the invocation.
+ * @returns The lines of the expansion, without the `.local` declarations.
+ */
+export function expandMacro(
+    macro: Macro,
+    argTokens: Token[],
+    lineText: string,
+    options: LexerOptions = {}
+): MacroExpansion {
+    const args = parseMacroArguments(argTokens, lineText);
+    const substitutions: Map<string, ExpandedLine> = new Map();
+    macro.params.forEach((param, i) => {
+        const arg = args[i] ?? { text: '', index: lineText.length };
+        substitutions.set(param, {
+            text: arg.text,
+            columns: Array.from(arg.text, (_, offset) => arg.index + offset)
+        });
+    });
+
+    const lines: ExpandedLine[] = [];
+    const localNames: string[] = [];
+    for (const bodyLine of macro.body) {
+        const tokens = stripComment(tokenizeLine(bodyLine, options));
+        if (tokens[0]?.kind === TokenKind.Directive && tokens[0].text.toLowerCase() === '.local') {
+            // ca65 renames these for every expansion. Give them cheap local names, which the
+            // scanner takes out of the invoking code's cheap local region once the expansion ends.
+            // Code of the region that uses the same name in the meantime sees them.
+            for (const token of tokens.slice(1)) {
+                if (token.kind === TokenKind.Identifier) {
+                    substitutions.set(token.text, { text: `@${token.text}`, columns: [undefined] });
+                    localNames.push(`@${token.text}`);
+                }
+            }
+            continue;
+        }
+
+        const line: ExpandedLine = { text: '', columns: [] };
+        const append = (text: string, columns: (number | undefined)[]) => {
+            line.text += text;
+            for (let i = 0; i < text.length; i++) line.columns.push(columns[i]);
+        };
+
+        let copied = 0;
+        for (const token of tokens) {
+            append(bodyLine.slice(copied, token.index), []);
+            copied = tokenEnd(token);
+
+            const substitution = token.kind === TokenKind.Identifier ? substitutions.get(token.text) : undefined;
+            if (substitution) {
+                append(substitution.text, substitution.columns);
+            } else if (token.kind === TokenKind.Directive && token.text.toLowerCase() === '.paramcount') {
+                append(String(args.length), []);
+            } else {
+                append(token.text, []);
+            }
+        }
+        lines.push(line);
+    }
+    return { lines, localNames };
+}
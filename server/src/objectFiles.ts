@@ -0,0 +1,410 @@
+/**
+ * This module reads the exports and imports of prebuilt ca65 object files (`.o`) and ar65
+ * libraries (`.lib`) on the `ca65.libraryPaths` setting, like those of cc65's runtime. Their exports
+ * are added to the exports map as read-only symbols, so that imports that resolve into them are
+ * known. Each object file, and each module of a library, is a virtual document that only exists in
+ * the index.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger, Range } from 'vscode-languageserver/node';
+import { URI } from 'vscode-uri';
+import { getWorkspaceRelativePath, resolveWorkspaceRelativeDirs } from './pathUtils';
+import { Export, ExportKind, Symbol, SymbolKind, SymbolTableEntity } from './symbolTable';
+import { exportsMap, getDocumentSettings, workspaceFolderUris } from './workspace';
+
+export const LIBRARY_SCHEME = 'ca65-library';
+
+const OBJECT_FILE_EXTENSIONS = ['.o', '.obj', '.lib'];
+
+// The formats ld65 reads, see objdefs.h and libdefs.h in cc65
+const OBJ_MAGIC = 0x616E7A55;
+const OBJ_VERSION = 17;
+const LIB_MAGIC = 0x7A55616E;
+const LIB_VERSION = 13;
+
+// Bits of the type of an export, see symdefs.h in cc65
+const SYM_CONDES_MASK = 0x07;
+const SYM_SIZE = 0x08;
+const SYM_EXPR = 0x10;
+const SYM_LABEL = 0x20;
+
+// Tags of expression nodes, see exprdefs.h in cc65
+const EXPR_NULL = 0x00;
+const EXPR_TYPEMASK = 0xC0;
+const EXPR_LEAFNODE = 0x80;
+const EXPR_LITERAL = 0x81;
+
+/**
+ * A symbol an object file exports.
+ */
+export interface ObjectExport {
+    name: string;
+    isLabel: boolean;
+    // The value of a constant, which labels only have if they are at absolute addresses
+    value?: number;
+    // The size of e.g. a `.proc`, if known
+    size?: number;
+}
+
+/**
+ * An object file, or a module of a library.
+ */
+interface ObjectModule {
+    name: string;
+    exports: ObjectExport[];
+    // The names of the symbols it imports
+    imports: string[];
+}
+
+/**
+ * The symbols of the virtual document of a module.
+ */
+interface LibraryModule {
+    exports: Export[];
+    symbols: Map<Export, Symbol>;
+    objectExports: Map<Symbol, ObjectExport>;
+    imports: string[];
+}
+
+// The modules of each file on the library paths by URI, with the modification time of the file
+// they were read from
+const libraryFiles: Map<string, { mtimeMs: number, modules: Map<string, LibraryModule> }> = new Map();
+// The modules of the files on the library paths, by URI
+const libraryModules: Map<string, LibraryModule> = new Map();
+
+/**
+ * Reads the little-endian numbers and the strings of an object file or library.
+ */
+class ObjectReader {
+    constructor(private buffer: Buffer, public offset: number = 0) {}
+
+    read8(): number {
+        return this.buffer.readUInt8(this.offset++);
+    }
+
+    read16(): number {
+        const value = this.buffer.readUInt16LE(this.offset);
+        this.offset += 2;
+        return value;
+    }
+
+    read32(): number {
+        const value = this.buffer.readUInt32LE(this.offset);
+        this.offset += 4;
+        return value;
+    }
+
+    readSigned32(): number {
+        const value = this.buffer.readInt32LE(this.offset);
+        this.offset += 4;
+        return value;
+    }
+
+    /**
+     * Reads a number of 7 bits per byte, lowest first, in which the high bit tells whether more
+     * bytes follow.
+     */
+    readVar(): number {
+        let value = 0;
+        let factor = 1;
+        let byte;
+        do {
+            byte = this.read8();
+            value += (byte & 0x7F) * factor;
+            factor *= 0x80;
+        } while (byte & 0x80);
+        return value;
+    }
+
+    readString(): string {
+        const length = this.readVar();
+        if (this.offset + length > this.buffer.length) {
+            throw new RangeError(`A string at ${this.offset} runs past the end of the file.`);
+        }
+        const text = this.buffer.toString('latin1', this.offset, this.offset + length);
+        this.offset += length;
+        return text;
+    }
+
+    skip(count: number): void {
+        this.offset += count;
+    }
+
+    /**
+     * Skips a list of line info ids.
+     */
+    skipLineInfos(): void {
+        for (let count = this.readVar(); count > 0; count--) this.readVar();
+    }
+
+    /**
+     * Skips an expression tree, in which nodes that aren't leaves have two operands, the second of
+     * which is null for unary operators.
+     */
+    skipExpression(): void {
+        const op = this.read8();
+        if (op === EXPR_NULL) return;
+        if ((op & EXPR_TYPEMASK) === EXPR_LEAFNODE) {
+            // A literal, or the number of an import or section
+            if (op === EXPR_LITERAL) {
+                this.skip(4);
+            } else {
+                this.readVar();
+            }
+            return;
+        }
+        this.skipExpression();
+        this.skipExpression();
+    }
+}
+
+/**
+ * Reads the imports and exports of an object file that starts at an offset of a buffer, which is
+ * that of a module in a library. The offsets in its header are relative to its start.
+ */
+function parseObjectModule(buffer: Buffer, start: number, name: string): ObjectModule {
+    const header = new ObjectReader(buffer, start);
+    if (header.read32() !== OBJ_MAGIC) throw new Error(`${name} isn't a ca65 object file.`);
+    const version = header.read16();
+    if (version !== OBJ_VERSION) {
+        throw new Error(`${name} is of object file version ${version}, not ${OBJ_VERSION}.`);
+    }
+    header.read16(); // Flags
+    // The offset and size of the options, files, segments, imports, exports, debug symbols, line
+    // infos, and strings, in that order
+    const offsets: number[] = [];
+    for (let i = 0; i < 8; i++) {
+        offsets.push(start + header.read32());
+        header.read32();
+    }
+    const [, , , importOffset, exportOffset, , , stringOffset] = offsets;
+
+    const strings: string[] = [];
+    const stringReader = new ObjectReader(buffer, stringOffset);
+    for (let count = stringReader.readVar(); count > 0; count--) {
+        strings.push(stringReader.readString());
+    }
+    const getString = (id: number) => {
+        if (id >= strings.length) throw new RangeError(`${name} has no string ${id}.`);
+        return strings[id];
+    };
+
+    const imports: string[] = [];
+    const importReader = new ObjectReader(buffer, importOffset);
+    for (let count = importReader.readVar(); count > 0; count--) {
+        importReader.read8(); // Address size
+        imports.push(getString(importReader.readVar()));
+        importReader.skipLineInfos(); // Definitions
+        importReader.skipLineInfos(); // References
+    }
+
+    const exports: ObjectExport[] = [];
+    const exportReader = new ObjectReader(buffer, exportOffset);
+    for (let count = exportReader.readVar(); count > 0; count--) {
+        const type = exportReader.readVar();
+        exportReader.read8(); // Address size
+        exportReader.skip(type & SYM_CONDES_MASK); // Constructor and destructor priorities
+        const exportName = getString(exportReader.readVar());
+        let value: number | undefined;
+        if (type & SYM_EXPR) {
+            exportReader.skipExpression();
+        } else {
+            value = exportReader.readSigned32();
+        }
+        const size = type & SYM_SIZE ? exportReader.readVar() : undefined;
+        exportReader.skipLineInfos(); // Definitions
+        exportReader.skipLineInfos(); // References
+        exports.push({ name: exportName, isLabel: (type & SYM_LABEL) !== 0, value, size });
+    }
+
+    return { name, exports, imports };
+}
+
+/**
+ * Reads the modules of an ar65 library, which are object files listed in its index.
+ */
+function parseLibrary(buffer: Buffer, name: string): ObjectModule[] {
+    const reader = new ObjectReader(buffer);
+    reader.read32(); // Magic
+    const version = reader.read16();
+    if (version !== LIB_VERSION) {
+        throw new Error(`${name} is of library version ${version}, not ${LIB_VERSION}.`);
+    }
+    reader.read16(); // Flags
+    reader.offset = reader.read32();
+
+    const modules: ObjectModule[] = [];
+    for (let count = reader.readVar(); count > 0; count--) {
+        const moduleName = reader.readString();
+        reader.read16(); // Flags
+        reader.read32(); // Modification time
+        const start = reader.read32();
+        reader.read32(); // Size
+        modules.push(parseObjectModule(buffer, start, moduleName));
+    }
+    return modules;
+}
+
+/**
+ * Returns the URI of the virtual document of an object file, or of a module of a library.
+ */
+function getLibraryModuleUri(filePath: string, moduleName?: string): string {
+    return URI.file(filePath).with({ scheme: LIBRARY_SCHEME, fragment: moduleName ?? '' }).toString();
+}
+
+export function isLibraryUri(uri: string): boolean {
+    return uri.startsWith(`${LIBRARY_SCHEME}:`);
+}
+
+/**
+ * Tells whether a file may be an object file or a library, which aren't sources.
+ */
+export function isObjectFile(uri: string): boolean {
+    return OBJECT_FILE_EXTENSIONS.includes(path.extname(URI.parse(uri).fsPath).toLowerCase());
+}
+
+/**
+ * Names the file of the virtual document of a module relative to the workspace, with the module if
+ * it is in a library, e.g. `lib/runtime.lib (ldaxysp.o)`.
+ */
+export function getLibraryModuleName(uri: string): string {
+    const parsedUri = URI.parse(uri);
+    const fileUri = parsedUri.with({ scheme: 'file', fragment: '' }).toString();
+    const fileName = getWorkspaceRelativePath(fileUri) ?? parsedUri.fsPath;
+    return parsedUri.fragment ? `${fileName} (${parsedUri.fragment})` : fileName;
+}
+
+/**
+ * Returns the symbol an export of a library module exports, or undefined if it isn't one.
+ */
+export function getLibrarySymbol(exportEntity: Export): Symbol | undefined {
+    return libraryModules.get(exportEntity.uri)?.symbols.get(exportEntity);
+}
+
+/**
+ * Returns what the object file tells about a symbol of a library module: the export, and what
+ * the module imports. Undefined if it isn't one.
+ */
+export function getLibraryExport(entity: SymbolTableEntity): { objectExport: ObjectExport, imports: string[] } | undefined {
+    const libraryModule = libraryModules.get(entity.uri);
+    const objectExport = entity instanceof Symbol ? libraryModule?.objectExports.get(entity) : undefined;
+    return libraryModule && objectExport && { objectExport, imports: libraryModule.imports };
+}
+
+function createLibraryModule(uri: string, objectModule: ObjectModule): LibraryModule {
+    const libraryModule: LibraryModule = {
+        exports: [],
+        symbols: new Map(),
+        objectExports: new Map(),
+        imports: objectModule.imports,
+    };
+    // Symbols that have no source are defined at the start of their virtual document.
+    const definition = Range.create(0, 0, 0, 0);
+    for (const objectExport of objectModule.exports) {
+        const exportEntity = new Export(uri, ExportKind.Export, objectExport.name, definition, null);
+        const symbol = new Symbol(
+            uri,
+            objectExport.isLabel ? SymbolKind.Label : SymbolKind.Constant,
+            objectExport.name,
+            definition,
+            null
+        );
+        libraryModule.exports.push(exportEntity);
+        libraryModule.symbols.set(exportEntity, symbol);
+        libraryModule.objectExports.set(symbol, objectExport);
+    }
+    return libraryModule;
+}
+
+/**
+ * Reads the modules of an object file or library, or takes them from the cache if it hasn't
+ * changed since.
+ */
+async function readObjectFile(filePath: string, logger: Logger): Promise<Map<string, LibraryModule>> {
+    try {
+        const { mtimeMs } = await fs.stat(filePath);
+        const cached = libraryFiles.get(filePath);
+        if (cached?.mtimeMs === mtimeMs) return cached.modules;
+
+        const buffer = await fs.readFile(filePath);
+        const fileName = path.basename(filePath);
+        const modules: Map<string, LibraryModule> = new Map();
+        if (buffer.length >= 4 && buffer.readUInt32LE(0) === LIB_MAGIC) {
+            for (const objectModule of parseLibrary(buffer, fileName)) {
+                const uri = getLibraryModuleUri(filePath, objectModule.name);
+                modules.set(uri, createLibraryModule(uri, objectModule));
+            }
+        } else {
+            const uri = getLibraryModuleUri(filePath);
+            modules.set(uri, createLibraryModule(uri, parseObjectModule(buffer, 0, fileName)));
+        }
+        libraryFiles.set(filePath, { mtimeMs, modules });
+        return modules;
+    } catch (e) {
+        logger.error(`Failed to read ${filePath}: ${e}`);
+        libraryFiles.delete(filePath);
+        return new Map();
+    }
+}
+
+/**
+ * Returns the object files and libraries on the library paths of a workspace folder: the files
+ * they name, and those in the directories they name.
+ */
+async function findObjectFiles(folderUri: string, libraryPaths: string[] | undefined): Promise<string[]> {
+    const filePaths: string[] = [];
+    for (const libraryPath of resolveWorkspaceRelativeDirs(folderUri, libraryPaths)) {
+        try {
+            if (!(await fs.stat(libraryPath)).isDirectory()) {
+                filePaths.push(libraryPath);
+                continue;
+            }
+            for (const entry of await fs.readdir(libraryPath, { withFileTypes: true })) {
+                if (entry.isFile() && OBJECT_FILE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+                    filePaths.push(path.join(libraryPath, entry.name));
+                }
+            }
+        } catch (e) {}
+    }
+    return filePaths;
+}
+
+/**
+ * Reads the object files and libraries on the library paths of every workspace folder, and puts
+ * their exports in the exports map in place of those read before.
+ * @returns Whether the exports changed.
+ */
+export async function loadLibraries(logger: Logger): Promise<boolean> {
+    const modules: Map<string, LibraryModule> = new Map();
+    const filePaths: Set<string> = new Set();
+    for (const folderUri of workspaceFolderUris) {
+        const settings = await getDocumentSettings(folderUri);
+        for (const filePath of await findObjectFiles(folderUri, settings.libraryPaths)) {
+            if (filePaths.has(filePath)) continue;
+            filePaths.add(filePath);
+            for (const [uri, libraryModule] of await readObjectFile(filePath, logger)) {
+                modules.set(uri, libraryModule);
+            }
+        }
+    }
+    for (const filePath of libraryFiles.keys()) {
+        if (!filePaths.has(filePath)) libraryFiles.delete(filePath);
+    }
+
+    let changed = false;
+    for (const [uri, libraryModule] of libraryModules) {
+        if (modules.get(uri) === libraryModule) continue;
+        exportsMap.removeUri(uri);
+        libraryModules.delete(uri);
+        changed = true;
+    }
+    for (const [uri, libraryModule] of modules) {
+        if (libraryModules.has(uri)) continue;
+        exportsMap.updateExports(uri, libraryModule.exports);
+        libraryModules.set(uri, libraryModule);
+        changed = true;
+    }
+    return changed;
+}
@@ -1,7 +1,7 @@
 import * as path from 'path';
 import { fileURLToPath } from "url";
 import { URI } from 'vscode-uri';
-import { symbolTables, workspaceFolderUris } from './server';
+import { symbolTables, workspaceFolderUris } from './workspace';
 import { globSync } from 'glob';
 import * as fs from 'fs/promises';
 
@@ -32,6 +32,18 @@ export function getWorkspaceFolderOfFile(fileUri: string): string | undefined {
     return sortedFolders.length > 0 ? sortedFolders[0] : undefined;
 }
 
+/**
+ * Resolves a path from the settings of a file against the workspace folder of the file, or against
+ * the directory of the file if it is in none.
+ */
+export function resolveWorkspacePath(fileUri: string, filePath: string): string {
+    const workspaceFolderUri = getWorkspaceFolderOfFile(fileUri);
+    const baseDir = workspaceFolderUri
+        ? URI.parse(workspaceFolderUri).fsPath
+        : path.dirname(URI.parse(fileUri).fsPath);
+    return path.resolve(baseDir, filePath);
+}
+
 export function resolveWorkspaceRelativeDirs(
     currentFileUri: string,
     relativeDirs: string[] | undefined
@@ -0,0 +1,432 @@
+/**
+ * This module reads the project manifest of each workspace folder, `ca65-project.json` at the root
+ * of the folder, which lists the link targets of the project: the source files that are linked
+ * together, and the include dirs, defines and CPU they are assembled with. A file belongs to the
+ * targets of the sources it is one of or is included by, and only sees the exports of files of its
+ * own targets. Files of a folder without a manifest, or that no target lists, are linked with
+ * every file.
+ *
+ * Folders without a manifest take their targets from the commands of their build instead (see
+ * compileCommands.ts), and each source is assembled with the flags of its own command.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { escape as escapeGlob, glob } from 'glob';
+import { Range } from 'vscode-languageserver-types';
+import { Logger } from 'vscode-languageserver/node';
+import { URI } from 'vscode-uri';
+import { AssemblerFlags, isCompileCommandsFile, loadCompileCommands, parseDefineValue } from './compileCommands';
+import { IncludesGraph } from './includesGraph';
+import { getWorkspaceFolderOfFile } from './pathUtils';
+import { Ca65Settings } from './settings';
+import { Scope, ScopeKind, SymbolKind } from './symbolTable';
+
+export const PROJECT_MANIFEST_NAME = 'ca65-project.json';
+
+/**
+ * A link target as it is written in the manifest.
+ */
+interface ManifestTarget {
+    name: string;
+    // Globs of the source files, relative to the workspace folder
+    sources: string[];
+    // Include dirs in addition to the `ca65.includeDirs` setting, searched first
+    includeDirs?: string[];
+    // The symbols defined on the command line with -D, as numbers or ca65 number literals
+    defines?: Record<string, number | string>;
+    cpu?: string;
+    // The ld65 config, and the map and debug info the link writes, relative to the workspace folder
+    linkerConfig?: string;
+    mapFile?: string;
+    debugFile?: string;
+}
+
+/**
+ * The flags files are assembled with, as settings.
+ */
+interface TargetFlags {
+    // Workspace-relative wildcard-compatible paths, like the `ca65.includeDirs` setting
+    includeDirs: string[];
+    defines: Record<string, number>;
+    // The symbols of the defines, with their locations in the manifest or the build
+    defineScope: Scope;
+    cpu?: string;
+}
+
+export interface ProjectTarget extends TargetFlags {
+    name: string;
+    sourceUris: Set<string>;
+    // The ld65 config, and the map and debug info the link writes, relative to the workspace folder
+    linkerConfig?: string;
+    mapFile?: string;
+    debugFile?: string;
+}
+
+/**
+ * The flags of a source file, from its command line.
+ */
+interface SourceFlags extends TargetFlags {
+    binIncludeDirs: string[];
+    features: string[];
+}
+
+interface FolderTargets {
+    targets: ProjectTarget[];
+    // The flags of each source file, when the targets come from the build
+    sourceFlags: Map<string, SourceFlags>;
+}
+
+/**
+ * Returns the URI of the manifest that applies to a file, which is that of its workspace folder.
+ */
+export function getProjectManifestUri(uri: string): string | undefined {
+    const folderUri = getWorkspaceFolderOfFile(uri);
+    return folderUri && getManifestUriOfFolder(folderUri);
+}
+
+function getManifestUriOfFolder(folderUri: string): string {
+    return URI.file(path.join(URI.parse(folderUri).fsPath, PROJECT_MANIFEST_NAME)).toString();
+}
+
+/**
+ * Creates a scope that holds symbols for the defines of a target, which ca65 defines before the
+ * first line of each file.
+ * @param getDefinition Returns the location of a define in the manifest.
+ */
+export function createDefineScope(
+    manifestUri: string,
+    defines: Record<string, number>,
+    getDefinition: (name: string) => Range = () => Range.create(0, 0, 0, 0)
+): Scope {
+    const scope = new Scope(manifestUri, ScopeKind.Scope, '', Range.create(0, 0, 0, 0), null);
+    for (const [name, value] of Object.entries(defines)) {
+        const definition = getDefinition(name);
+        const symbol = scope.addSymbol(name, definition, SymbolKind.Constant);
+        symbol.value = { kind: 'number', value, start: 0, end: 0 };
+    }
+    return scope;
+}
+
+/**
+ * Finds the location of the key of a define in the text of the manifest, after the target's name.
+ */
+function findDefineRange(text: string, targetName: string, name: string): Range {
+    const escape = (value: string) => JSON.stringify(value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const targetMatch = new RegExp(`"name"\\s*:\\s*${escape(targetName)}`).exec(text);
+    const keyPattern = new RegExp(`${escape(name)}\\s*:`, 'g');
+    keyPattern.lastIndex = targetMatch?.index ?? 0;
+    const keyMatch = keyPattern.exec(text);
+    if (!keyMatch) return Range.create(0, 0, 0, 0);
+
+    const before = text.slice(0, keyMatch.index).split(/\r\n|\r|\n/);
+    const line = before.length - 1;
+    const character = before[line].length + 1;
+    return Range.create(line, character, line, character + name.length);
+}
+
+/**
+ * Finds the first place a define is given in the text of a build, as `-Dname` or a whole word.
+ */
+function findDefineInBuild(text: string, name: string): Range {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = new RegExp(`(-D|\\b)${escaped}\\b`).exec(text);
+    if (!match) return Range.create(0, 0, 0, 0);
+
+    const before = text.slice(0, match.index + match[1].length).split(/\r\n|\r|\n/);
+    const line = before.length - 1;
+    return Range.create(line, before[line].length, line, before[line].length + name.length);
+}
+
+/**
+ * Turns absolute directories into paths relative to a workspace folder, as settings give them.
+ */
+function toWorkspaceRelativeDirs(folderPath: string, dirs: string[]): string[] {
+    return dirs.map(dir => escapeGlob(path.relative(folderPath, dir).split(path.sep).join('/') || '.'));
+}
+
+/**
+ * Returns the settings of the files of a link: those of the target, or else those of the settings.
+ */
+function getLinkSettings(target: ProjectTarget | undefined, settings: Ca65Settings): Pick<Ca65Settings, 'linkerConfig' | 'mapFile' | 'debugFile'> {
+    return {
+        linkerConfig: target?.linkerConfig ?? settings.linkerConfig,
+        mapFile: target?.mapFile ?? settings.mapFile,
+        debugFile: target?.debugFile ?? settings.debugFile,
+    };
+}
+
+/**
+ * Returns a key of everything about a list of targets that scanning and linking depend on, to tell
+ * whether it changed.
+ */
+function getTargetsKey(folderTargets: FolderTargets | undefined): string {
+    const getFlagsKey = (flags: TargetFlags) => ({ ...flags, defineScope: undefined });
+    return JSON.stringify(folderTargets && {
+        targets: folderTargets.targets.map(target => ({
+            ...getFlagsKey(target),
+            sourceUris: [...target.sourceUris].sort(),
+        })),
+        sourceFlags: [...folderTargets.sourceFlags].map(([uri, flags]) => [uri, getFlagsKey(flags)]),
+    });
+}
+
+export class ProjectTargets {
+    // The targets of each workspace folder, in manifest order
+    private targetsPerFolder: Map<string, FolderTargets> = new Map();
+
+    constructor(private includesGraph: IncludesGraph) {}
+
+    /**
+     * Reads the manifest of a workspace folder, or the commands of its build if it has none, or
+     * forgets its targets if it has neither. Targets that aren't valid are left out and logged.
+     * @param makeDryRun Whether the commands may be taken from a dry run of make.
+     * @returns Whether the targets changed.
+     */
+    async loadTargets(folderUri: string, makeDryRun: boolean, logger: Logger): Promise<boolean> {
+        const oldTargets = this.targetsPerFolder.get(folderUri);
+        const manifestTargets = await this.readManifest(folderUri, logger);
+        const targets = manifestTargets
+            ? { targets: manifestTargets, sourceFlags: new Map() }
+            : await this.readCompileCommands(folderUri, makeDryRun, logger);
+        if (targets) {
+            this.targetsPerFolder.set(folderUri, targets);
+        } else {
+            this.targetsPerFolder.delete(folderUri);
+        }
+        return getTargetsKey(oldTargets) !== getTargetsKey(targets);
+    }
+
+    private async readManifest(folderUri: string, logger: Logger): Promise<ProjectTarget[] | undefined> {
+        const manifestUri = getManifestUriOfFolder(folderUri);
+        let text: string;
+        try {
+            text = await fs.readFile(URI.parse(manifestUri).fsPath, 'utf-8');
+        } catch (e) {
+            // There is no manifest.
+            return undefined;
+        }
+
+        let manifest: { targets?: ManifestTarget[] };
+        try {
+            manifest = JSON.parse(text);
+        } catch (e) {
+            logger.error(`Failed to read ${manifestUri}: ${e}`);
+            return undefined;
+        }
+        if (!Array.isArray(manifest?.targets)) {
+            logger.error(`${manifestUri} has no "targets" list.`);
+            return undefined;
+        }
+
+        const folderPath = URI.parse(folderUri).fsPath;
+        const targets: ProjectTarget[] = [];
+        for (const [index, target] of manifest.targets.entries()) {
+            if (typeof target?.name !== 'string' || !Array.isArray(target.sources)) {
+                logger.error(
+                    `Target ${index + 1} in ${manifestUri} needs a "name" and a "sources" list.`
+                );
+                continue;
+            }
+
+            const defines: Record<string, number> = {};
+            for (const [name, value] of Object.entries(target.defines ?? {})) {
+                const parsedValue = parseDefineValue(value);
+                if (parsedValue === undefined) {
+                    logger.error(
+                        `The define ${name} of target ${target.name} in ${manifestUri} isn't a number.`
+                    );
+                    continue;
+                }
+                defines[name] = parsedValue;
+            }
+
+            const sourcePaths = await glob(target.sources, { cwd: folderPath, nodir: true });
+            targets.push({
+                name: target.name,
+                sourceUris: new Set(
+                    sourcePaths.map(file => URI.file(path.join(folderPath, file)).toString())
+                ),
+                includeDirs: target.includeDirs ?? [],
+                defines,
+                defineScope: createDefineScope(
+                    manifestUri, defines, name => findDefineRange(text, target.name, name)
+                ),
+                cpu: target.cpu,
+                linkerConfig: target.linkerConfig,
+                mapFile: target.mapFile,
+                debugFile: target.debugFile,
+            });
+        }
+        return targets;
+    }
+
+    private async readCompileCommands(folderUri: string, makeDryRun: boolean, logger: Logger): Promise<FolderTargets | undefined> {
+        const folderPath = URI.parse(folderUri).fsPath;
+        const commands = await loadCompileCommands(folderPath, makeDryRun, logger);
+        if (!commands) return undefined;
+
+        const originUri = URI.file(commands.originPath).toString();
+        let originText = '';
+        try {
+            originText = await fs.readFile(commands.originPath, 'utf-8');
+        } catch (e) {}
+
+        const sourceFlags: Map<string, SourceFlags> = new Map();
+        for (const [sourcePath, flags] of commands.sources) {
+            sourceFlags.set(URI.file(sourcePath).toString(), this.createSourceFlags(
+                folderPath, flags, originUri, name => findDefineInBuild(originText, name)
+            ));
+        }
+
+        // The flags of the sources of a link are their own.
+        const toWorkspaceRelative = (filePath?: string) => filePath && path.relative(folderPath, filePath);
+        const targets = commands.links.map(link => ({
+            name: path.basename(link.output),
+            sourceUris: new Set(link.sourcePaths.map(sourcePath => URI.file(sourcePath).toString())),
+            includeDirs: [],
+            defines: {},
+            defineScope: createDefineScope(originUri, {}),
+            linkerConfig: toWorkspaceRelative(link.configPath),
+            mapFile: toWorkspaceRelative(link.mapPath),
+            debugFile: toWorkspaceRelative(link.debugInfoPath),
+        }));
+        return { targets, sourceFlags };
+    }
+
+    private createSourceFlags(
+        folderPath: string,
+        flags: AssemblerFlags,
+        originUri: string,
+        getDefinition: (name: string) => Range
+    ): SourceFlags {
+        return {
+            includeDirs: toWorkspaceRelativeDirs(folderPath, flags.includeDirs),
+            binIncludeDirs: toWorkspaceRelativeDirs(folderPath, flags.binIncludeDirs),
+            defines: flags.defines,
+            defineScope: createDefineScope(originUri, flags.defines, getDefinition),
+            cpu: flags.cpu,
+            features: flags.features,
+        };
+    }
+
+    /**
+     * Tells whether the targets of a workspace folder may change with a file: its manifest or the
+     * files its build is read from, or any file that comes or goes if the manifest lists the
+     * sources with globs.
+     * @param addedOrRemoved Whether the file was created or deleted.
+     */
+    isTargetsFile(folderUri: string, uri: string, addedOrRemoved: boolean): boolean {
+        const filePath = URI.parse(uri).fsPath;
+        if (filePath === URI.parse(getManifestUriOfFolder(folderUri)).fsPath) return true;
+        if (isCompileCommandsFile(filePath, URI.parse(folderUri).fsPath)) return true;
+        const folderTargets = this.targetsPerFolder.get(folderUri);
+        return addedOrRemoved && !!folderTargets && folderTargets.sourceFlags.size === 0;
+    }
+
+    /**
+     * Returns the targets of a workspace folder, in manifest order.
+     */
+    getTargetsOfFolder(folderUri: string): ProjectTarget[] {
+        return this.targetsPerFolder.get(folderUri)?.targets ?? [];
+    }
+
+    /**
+     * Returns the targets a file is assembled for: those that list it or a file that includes it
+     * as a source, in manifest order.
+     */
+    getTargets(uri: string): ProjectTarget[] {
+        // Only files on disk are sources, not the bundled macro packages.
+        if (!uri.startsWith('file:')) return [];
+        const folderUri = getWorkspaceFolderOfFile(uri);
+        const targets = folderUri && this.targetsPerFolder.get(folderUri)?.targets;
+        if (!targets || targets.length === 0) return [];
+
+        const sources = this.getSources(uri);
+        return targets.filter(target => sources.some(source => target.sourceUris.has(source)));
+    }
+
+    /**
+     * Returns the files that may be assembled to assemble a file: those that include it, or the
+     * file itself if none does.
+     */
+    private getSources(uri: string): string[] {
+        const dependents = [...this.includesGraph.getTransitiveDependents(uri)];
+        return dependents.length > 0 ? dependents : [uri];
+    }
+
+    /**
+     * Returns the flags of the command that assembles a file or the first file that includes it.
+     */
+    private getSourceFlags(uri: string): SourceFlags | undefined {
+        if (!uri.startsWith('file:')) return undefined;
+        const folderUri = getWorkspaceFolderOfFile(uri);
+        const sourceFlags = folderUri && this.targetsPerFolder.get(folderUri)?.sourceFlags;
+        if (!sourceFlags || sourceFlags.size === 0) return undefined;
+        if (sourceFlags.has(uri)) return sourceFlags.get(uri);
+        for (const source of this.getSources(uri)) {
+            const flags = sourceFlags.get(source);
+            if (flags) return flags;
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the position among the targets of a file of the first target it shares with another
+     * file, or undefined if they aren't linked together. A file that belongs to no target is linked
+     * with every file, at 0.
+     */
+    getLinkOrder(uri: string, otherUri: string): number | undefined {
+        const targets = this.getTargets(uri);
+        if (targets.length === 0) return 0;
+        const otherTargets = this.getTargets(otherUri);
+        if (otherTargets.length === 0) return 0;
+        const index = targets.findIndex(target => otherTargets.includes(target));
+        return index >= 0 ? index : undefined;
+    }
+
+    /**
+     * Tells whether two files are linked together, so that one sees the exports of the other.
+     */
+    isLinkedWith(uri: string, otherUri: string): boolean {
+        return this.getLinkOrder(uri, otherUri) !== undefined;
+    }
+
+    /**
+     * Returns the settings of a file with the flags of the command that assembles it, which take
+     * the place of the settings, or else with those of the first target it is assembled for.
+     */
+    applyTargetSettings(uri: string, settings: Ca65Settings): Ca65Settings {
+        const target = this.getTargets(uri)[0];
+        const sourceFlags = this.getSourceFlags(uri);
+        if (sourceFlags) {
+            return {
+                ...settings,
+                ...getLinkSettings(target, settings),
+                includeDirs: sourceFlags.includeDirs,
+                binIncludeDirs: sourceFlags.binIncludeDirs,
+                cpu: sourceFlags.cpu ?? settings.cpu,
+                lineContinuations: false,
+                defines: sourceFlags.defines,
+                features: sourceFlags.features,
+            };
+        }
+
+        if (!target) return settings;
+        return {
+            ...settings,
+            ...getLinkSettings(target, settings),
+            includeDirs: [...target.includeDirs, ...settings.includeDirs ?? []],
+            cpu: target.cpu ?? settings.cpu,
+            defines: target.defines,
+        };
+    }
+
+    /**
+     * Returns the symbols that the command of a file, or the first target it is assembled for,
+     * defines.
+     */
+    getDefineScope(uri: string): Scope | undefined {
+        return this.getSourceFlags(uri)?.defineScope ?? this.getTargets(uri)[0]?.defineScope;
+    }
+}
@@ -5,8 +5,7 @@ import {
     ReferenceParams,
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { getDocumentSettings, includesGraph, initializationGate, performanceMonitor, symbolTables } from './server';
-import { findAllCheapLocalLabelReferences } from './cheapLocalLabelUtils';
+import { getDocumentSettings, includesGraph, initializationGate, performanceMonitor, symbolTables } from './workspace';
 import { findAllAnonLabelReferences } from './anonymousLabelUtils';
 import { getAllReferenceLocationsForEntity, resolveReferenceAtPosition } from './symbolResolver';
 
@@ -44,13 +43,7 @@ export function initializeReferencesProvider(connection: _Connection, documents:
             return result;
         }
 
-        // Didn't find a real symbol, check if it's a cheap or anonymous reference.
-        const cheapLocalRefs = findAllCheapLocalLabelReferences(document, params.position);
-        if (cheapLocalRefs.length > 0) {
-            performanceMonitor.stop("onReferences");
-            return cheapLocalRefs;
-        }
-
+        // Didn't find a real symbol, check if it's an anonymous reference.
         const anonLabelRef = findAllAnonLabelReferences(document, params.position);
         if (anonLabelRef.length > 0) {
             performanceMonitor.stop("onReferences");
@@ -4,12 +4,14 @@ import {
     RenameParams,
     WorkspaceEdit,
     TextEdit,
-    Location,
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { getDocumentSettings, includesGraph, initializationGate, symbolTables } from './server';
+import { URI } from 'vscode-uri';
+import * as fs from 'fs/promises';
+import { getDocumentSettings, includesGraph, initializationGate, symbolTables } from './workspace';
 import { getAllReferenceLocationsForEntity, resolveReferenceAtPosition } from './symbolResolver';
-import { findAllCheapLocalLabelReferences } from './cheapLocalLabelUtils';
+import { isMacpackUri } from './macpacks';
+import { isLibraryUri } from './objectFiles';
 
 export function initializeRenameProvider(connection: _Connection, documents: TextDocuments<TextDocument>) {
     /**
@@ -28,30 +30,52 @@ export function initializeRenameProvider(connection: _Connection, documents: Tex
         const settings = await getDocumentSettings(uri);
 
         const edits: { [uri: string]: TextEdit[] } = {};
-        let allLocations: Location[];
 
         const foundEntity = resolveReferenceAtPosition(
             uri, params.position, symbolTables, includesGraph, settings.implicitImports
         );
-        if (foundEntity) {
-            allLocations = getAllReferenceLocationsForEntity(
-                foundEntity,
-                symbolTables,
-                includesGraph,
-                settings.implicitImports
-            );
-        } else {
-            // Didn't find a real symbol, check if it's a cheap label
-            allLocations = findAllCheapLocalLabelReferences(document, params.position);
-        }
+        // The bundled macro packages are read-only.
+        if (!foundEntity || isMacpackUri(foundEntity.uri) || isLibraryUri(foundEntity.uri)) return null;
+        const allLocations = getAllReferenceLocationsForEntity(
+            foundEntity,
+            symbolTables,
+            includesGraph,
+            settings.implicitImports
+        );
+
+        // Names generated by `.ident` or a macro don't appear as such in the source, so only
+        // locations whose text is the name are renamed. Files that aren't open are read from disk.
+        const locationDocuments: Map<string, Promise<TextDocument | undefined>> = new Map();
+        const getLocationDocument = (fileUri: string): Promise<TextDocument | undefined> => {
+            let locationDocument = locationDocuments.get(fileUri);
+            if (!locationDocument) {
+                const openDocument = documents.get(fileUri);
+                locationDocument = openDocument
+                    ? Promise.resolve(openDocument)
+                    : fs.readFile(URI.parse(fileUri).fsPath, 'utf-8').then(
+                        content => TextDocument.create(fileUri, 'ca65', 0, content),
+                        () => undefined
+                    );
+                locationDocuments.set(fileUri, locationDocument);
+            }
+            return locationDocument;
+        };
 
-        allLocations.forEach(location => {
+        // A location can be referenced more than once, e.g. from the expansions of a `.repeat`.
+        const renamedLocations = new Set<string>();
+        for (const location of allLocations) {
+            const { start, end } = location.range;
+            const locationKey = `${location.uri}:${start.line}:${start.character}:${end.line}:${end.character}`;
+            if (renamedLocations.has(locationKey)) continue;
+            renamedLocations.add(locationKey);
+            const name = (await getLocationDocument(location.uri))?.getText(location.range);
+            if (name !== foundEntity.name) continue;
             if (!edits[location.uri]) {
                 edits[location.uri] = [];
             }
             const textEdit = TextEdit.replace(location.range, params.newName);
             edits[location.uri].push(textEdit);
-        });;
+        }
         const workspaceEdit: WorkspaceEdit = {
             changes: edits,
         };
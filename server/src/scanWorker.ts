@@ -0,0 +1,83 @@
+/**
+ * This module is the entry point of the worker threads that scan workspace files during the
+ * initial scan (see scanWorkerPool.ts). A worker reads and scans one file at a time and sends its
+ * table back serialized. It knows the files of the workspace, so that includes resolve, and gets
+ * the indexed tables of the file's translation unit along with the file.
+ */
+
+import * as fs from 'fs/promises';
+import { parentPort, workerData } from 'worker_threads';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Logger } from 'vscode-languageserver/node';
+import { URI } from 'vscode-uri';
+import { loadAllData } from './dataManager';
+import { scanLines } from './documentScanner';
+import { loadMacpacks } from './macpacks';
+import { Ca65Settings, documentSettings } from './settings';
+import { SymbolTable } from './symbolTable';
+import { deserializeSymbolTable, serializeSymbolTable } from './symbolTableSerialization';
+import { includesGraph, symbolTables, workspaceFolderUris } from './workspace';
+
+export interface ScanWorkerData {
+    workspaceFolderUris: string[];
+    // The files of the workspace
+    uris: string[];
+    // The settings of the macro packages, which each worker indexes itself
+    macpackSettings: [string, Ca65Settings][];
+}
+
+export interface ScanTask {
+    uri: string;
+    settings: Ca65Settings;
+    // The files of the translation unit of the file as far as they are known, with their tables
+    // if they are indexed and weren't sent to this worker before.
+    translationUnit: { uri: string, includedFiles: string[], table?: Uint8Array }[];
+}
+
+export type ScanWorkerMessage =
+    | { kind: 'scanned', uri: string, table: Uint8Array }
+    | { kind: 'failed', uri: string, error: string }
+    | { kind: 'log', message: string };
+
+const logger: Logger = {
+    error: message => parentPort!.postMessage({ kind: 'log', message }),
+    warn: message => parentPort!.postMessage({ kind: 'log', message }),
+    info: () => {},
+    log: () => {},
+};
+
+async function initialize() {
+    const data: ScanWorkerData = workerData;
+    workspaceFolderUris.push(...data.workspaceFolderUris);
+    for (const uri of data.uris) {
+        symbolTables.set(uri, new SymbolTable(uri));
+    }
+    for (const [uri, settings] of data.macpackSettings) {
+        documentSettings.set(uri, Promise.resolve(settings));
+    }
+    loadAllData(logger);
+    await loadMacpacks(logger);
+}
+
+async function scan(task: ScanTask): Promise<ScanWorkerMessage> {
+    try {
+        for (const file of task.translationUnit) {
+            if (file.table) symbolTables.set(file.uri, deserializeSymbolTable(file.table));
+            includesGraph.updateIncludes(file.uri, file.includedFiles);
+        }
+        const content = await fs.readFile(URI.parse(task.uri).fsPath, 'utf-8');
+        const symbolTable = new SymbolTable(task.uri);
+        scanLines(TextDocument.create(task.uri, 'ca65', 0, content), symbolTable, task.settings);
+        return { kind: 'scanned', uri: task.uri, table: serializeSymbolTable(symbolTable) };
+    } catch (e) {
+        return { kind: 'failed', uri: task.uri, error: `${e}` };
+    }
+}
+
+const initialized = initialize();
+
+parentPort!.on('message', async (task: ScanTask) => {
+    await initialized;
+    const message = await scan(task);
+    parentPort!.postMessage(message, message.kind === 'scanned' ? [message.table.buffer as ArrayBuffer] : []);
+});
@@ -0,0 +1,132 @@
+/**
+ * This module scans workspace files in a pool of worker threads (see scanWorker.ts), so that the
+ * initial scan of a workspace uses more than one core and leaves the main thread free to serve
+ * requests.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { Logger } from 'vscode-languageserver/node';
+import { ScanTask, ScanWorkerData, ScanWorkerMessage } from './scanWorker';
+import { Ca65Settings } from './settings';
+import { SymbolTable } from './symbolTable';
+import { deserializeSymbolTable, serializeSymbolTable } from './symbolTableSerialization';
+
+// Starting a worker takes a while, so small workspaces get fewer workers.
+const FILES_PER_WORKER = 16;
+const MAX_WORKERS = 8;
+
+/**
+ * What a worker needs to scan a file.
+ */
+export interface ScanRequest {
+    settings: Ca65Settings;
+    // The files of the translation unit of the file as far as they are known, with the tables of
+    // those that are indexed.
+    translationUnit: { uri: string, includedFiles: string[], table?: SymbolTable }[];
+}
+
+/**
+ * Scans files in worker threads. The files are handed out one at a time, in the given order.
+ * With a single core, no workers are started.
+ * @param getRequest Called for each file when a worker is free to scan it.
+ * @param onScanned Called with the table of each file, or undefined if it couldn't be scanned.
+ * @returns The files that weren't scanned, because there are no workers or they stopped.
+ */
+export async function scanInWorkers(
+    uris: string[],
+    workerData: ScanWorkerData,
+    getRequest: (uri: string) => Promise<ScanRequest>,
+    onScanned: (uri: string, symbolTable: SymbolTable | undefined) => void,
+    logger: Logger,
+): Promise<string[]> {
+    const pending = [...uris];
+    const unscanned: string[] = [];
+    // Tables are serialized once for all the workers they are sent to.
+    const serializedTables: Map<SymbolTable, Buffer> = new Map();
+
+    const runWorker = () => new Promise<void>(resolve => {
+        const worker = new Worker(path.join(__dirname, 'scanWorker.js'), { workerData });
+        const sentTables: Set<SymbolTable> = new Set();
+        let current: string | undefined;
+
+        const serializeForWorker = (table: SymbolTable | undefined): Uint8Array | undefined => {
+            if (!table || sentTables.has(table)) return undefined;
+            sentTables.add(table);
+            let serialized = serializedTables.get(table);
+            if (!serialized) {
+                serialized = serializeSymbolTable(table);
+                serializedTables.set(table, serialized);
+            }
+            return serialized;
+        }
+
+        const scanNext = async () => {
+            current = pending.shift();
+            if (!current) {
+                await worker.terminate();
+                return;
+            }
+
+            let task: ScanTask;
+            try {
+                const request = await getRequest(current);
+                task = {
+                    uri: current,
+                    settings: request.settings,
+                    translationUnit: request.translationUnit.map(file => ({
+                        uri: file.uri,
+                        includedFiles: file.includedFiles,
+                        table: serializeForWorker(file.table),
+                    })),
+                };
+            } catch (e) {
+                logger.error(`Failed to scan ${current}: ${e}`);
+                onScanned(current, undefined);
+                return scanNext();
+            }
+            worker.postMessage(task);
+        }
+
+        worker.on('message', (message: ScanWorkerMessage) => {
+            switch (message.kind) {
+                case 'log':
+                    logger.error(message.message);
+                    return;
+                case 'scanned':
+                    onScanned(message.uri, deserializeSymbolTable(message.table));
+                    break;
+                case 'failed':
+                    logger.error(`Failed to scan ${message.uri}: ${message.error}`);
+                    onScanned(message.uri, undefined);
+                    break;
+            }
+            scanNext();
+        });
+        worker.on('error', e => {
+            logger.error(`A scan worker stopped: ${e}`);
+        });
+        worker.on('exit', () => {
+            if (current) unscanned.push(current);
+            current = undefined;
+            resolve();
+        });
+        scanNext();
+    });
+
+    // One core is left to the main thread, which deserializes the tables.
+    const workerCount = Math.min(
+        MAX_WORKERS,
+        os.cpus().length - 1,
+        Math.ceil(uris.length / FILES_PER_WORKER)
+    );
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < workerCount; i++) {
+        workers.push(runWorker());
+    }
+    await Promise.all(workers);
+
+    // Files that no worker got to
+    return [...unscanned, ...pending];
+}
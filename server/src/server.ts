@@ -21,7 +21,6 @@ import { initializeFoldingRangeProvider } from './foldingRangeProvider';
 import { initializeDocumentLinkProvider } from './documentLinkProvider';
 import { initializeWorkspaceSymbolProvider } from './workspaceSymbolProvider';
 import { initializeInlayHintProvider } from './inlayHintProvider';
-import { IncludesGraph } from './includesGraph';
 import { SymbolTable } from './symbolTable';
 import { initializeHoverProvider } from './hoverProvider';
 import { initializeReferencesProvider } from './referencesProvider';
@@ -30,40 +29,43 @@ import { initializeRenameProvider } from './renameProvider';
 import { initializeCallHierarchyProvider } from './callHierarchyProvider';
 import { initializeDocumentHighlightProvider } from './documentHighlightProvider';
 import { initializeCompletionProvider } from './completionProvider';
-import { deleteCachedResolutions } from './symbolResolver';
-import { ExportsMap } from './exportsMap';
-import { Ca65Settings, documentSettings } from './settings';
-import { Performance as PerformanceMonitor } from './performance';
+import { initializeInactiveRegions, publishInactiveRegions } from './inactiveRegions';
+import { getMacpackUri, initializeMacpacks, loadMacpacks, MACPACK_NAMES } from './macpacks';
+import { initializeDebugInfo, isDebugInfoFile } from './debugInfo';
+import { isObjectFile, loadLibraries } from './objectFiles';
+import { deleteCachedResolutions, deleteCachedResolutionsOfNames } from './symbolResolver';
+import { rescanDocument, RescanChanges } from './incrementalScan';
+import { initializeIndexCache, loadIndexCache, saveIndexCache } from './indexCache';
+import { ScanRequest, scanInWorkers } from './scanWorkerPool';
+import { ScanWorkerData } from './scanWorker';
+import { Ca65Settings } from './settings';
+import {
+    exportsMap,
+    getDocumentSettings,
+    includesGraph,
+    initializationGate,
+    initializeWorkspace,
+    performanceMonitor,
+    projectTargets,
+    symbolTables,
+    workspaceFolderUris,
+} from './workspace';
+import { getWorkspaceFolderOfFile } from './pathUtils';
 
 // --- Connection and Document Manager Setup ---
 const connection = createConnection(ProposedFeatures.all);
 const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
-export let workspaceFolderUris: string[] = [];
-export const symbolTables = new Map<string, SymbolTable>();
-export const includesGraph = new IncludesGraph();
-export const exportsMap = new ExportsMap();
-export const performanceMonitor = new PerformanceMonitor();
-
-export const initializationGate = (() => {
-    let resolve: () => void;
-    const promise = new Promise<void>(r => {
-        resolve = r;
-    });
-    return {
-        isInitialized: promise,
-        open: () => resolve(),
-    };
-})();
 
 // --- Server Initialization ---
 connection.onInitialize(async (params: InitializeParams) => {
     if (params.workspaceFolders) {
-        workspaceFolderUris = params.workspaceFolders.map(folder => folder.uri);
+        workspaceFolderUris.push(...params.workspaceFolders.map(folder => folder.uri));
     }
+    initializeIndexCache(params.initializationOptions);
 
     return {
         capabilities: {
-            textDocumentSync: TextDocumentSyncKind.Full,
+            textDocumentSync: TextDocumentSyncKind.Incremental,
             hoverProvider: true,
             documentSymbolProvider: true,
             definitionProvider: true,
@@ -74,7 +76,7 @@ connection.onInitialize(async (params: InitializeParams) => {
             renameProvider: true,
             workspaceSymbolProvider: true,
             completionProvider: {
-                triggerCharacters: ['.', '@'],
+                triggerCharacters: ['.', '@', '"'],
                 resolveProvider: true,
             },
             inlayHintProvider: { resolveProvider: false },
@@ -89,7 +91,8 @@ connection.onInitialize(async (params: InitializeParams) => {
 connection.onInitialized(async () => {
     try {
         // Load data for mnemonic and directive hovers
-        loadAllData(connection);
+        loadAllData(connection.console);
+        await loadMacpacks(connection.console);
 
         // Initial scan of all symbol tables. This is required immediately after initialization since
         // otherwise we will not know the correct includes graph and import/export info for correct
@@ -137,56 +140,307 @@ connection.onInitialized(async () => {
         // Combine defaults with user settings, removing any duplicates.
         const allGlobs = [...new Set([...defaultGlobs, ...configuredGlobs])];
 
+        for (const folderUri of workspaceFolderUris) {
+            await loadProjectTargets(folderUri);
+        }
+        await loadLibraries(connection.console);
+
+        // Tables of files that didn't change since the last session are taken from the cache.
+        // The settings of a file depend on the targets of the files that include it, so the
+        // includes of the last session are known first.
+        const indexCache = await loadIndexCache(connection);
+        for (const uri of indexCache.getUris()) {
+            includesGraph.updateIncludes(uri, indexCache.getIncludedFiles(uri));
+        }
+        const foundUris: Set<string> = new Set();
+        const cachedUris: Set<string> = new Set();
+        const changedUris: Set<string> = new Set();
         for (const folderUri of workspaceFolderUris) {
             const folderPath = URI.parse(folderUri).fsPath;
             // The glob library accepts an array of patterns, so we pass all of them.
             const files = await glob(allGlobs, { cwd: folderPath, nodir: true });
 
-            const docs = [];
             for (const file of files) {
-                try {
-                    const filePath = path.join(folderPath, file);
-                    const uri = URI.file(filePath).toString();
-                    const content = await fs.readFile(filePath, 'utf-8');
-                    const doc = TextDocument.create(uri, 'ca65', 0, content);
-                    
-                    docs.push(doc);
-                    symbolTables.set(uri, new SymbolTable(doc.uri));
-                } catch (e) {
-                    connection.console.error(`Failed to scan ${file}: ${e}`);
+                const uri = URI.file(path.join(folderPath, file)).toString();
+                foundUris.add(uri);
+                const cachedSymbolTable = await indexCache.getSymbolTable(uri);
+                if (cachedSymbolTable) {
+                    cachedUris.add(uri);
+                    setIndexedSymbolTable(uri, cachedSymbolTable);
+                } else {
+                    changedUris.add(uri);
+                    includesGraph.updateIncludes(uri, indexCache.getIncludedFiles(uri));
                 }
             }
+        }
 
-            for (const doc of docs) {
-                const symbolTable = await scanDocument(doc);
-                symbolTables.set(doc.uri, symbolTable);
-                includesGraph.updateIncludes(doc.uri, symbolTable.includedFiles);
-                exportsMap.updateExports(doc.uri, symbolTable.exports);
+        // Files that include a changed or deleted file, or are included with one, may scan
+        // differently too.
+        const urisToScan: Set<string> = new Set();
+        const deletedUris = indexCache.getUris().filter(uri => !foundUris.has(uri));
+        for (const uri of [...changedUris, ...deletedUris]) {
+            for (const affectedUri of includesGraph.getTranslationUnit(uri)) {
+                if (foundUris.has(affectedUri)) urisToScan.add(affectedUri);
             }
         }
+        for (const uri of deletedUris) {
+            includesGraph.removeFile(uri);
+        }
+
+        // Until they are scanned, files are known by empty tables so that includes of them
+        // resolve. Files are scanned after the files they include, as far as the includes are
+        // known from the last session.
+        const uris = includesGraph.sortByIncludes([...foundUris].filter(uri => urisToScan.has(uri)));
+        for (const uri of uris) {
+            if (!symbolTables.has(uri)) symbolTables.set(uri, new SymbolTable(uri));
+        }
+
+        const incompleteUris = new Set(await scanWorkspaceFiles(uris, foundUris, cachedUris));
+        // Files scanned before the files they include missed their macros and constants, and
+        // files scanned before the files that include them may be assembled for targets that are
+        // only known now.
+        const rescannedUris: string[] = [];
+        for (const uri of includesGraph.sortByIncludes(uris)) {
+            if (documents.get(uri)) continue;
+            if (incompleteUris.has(uri) || await isScannedWithOtherSettings(uri)) rescannedUris.push(uri);
+        }
+        await scanWorkspaceFiles(rescannedUris, foundUris, foundUris);
+        connection.console.log(
+            `Indexed ${foundUris.size} files, ${foundUris.size - uris.length} of them from the cache.`
+        );
     } catch (e) {
         connection.console.error(`A critical error occurred during initialization: ${e}`);
     }
     performanceMonitor.stop('onInitialized');
 
     initializationGate.open();
+    await saveIndexCache(connection);
 });
 
-// Helper function to get the setting for a document
-export function getDocumentSettings(resource: string): Thenable<Ca65Settings> {
-    let result = documentSettings.get(resource);
-    if (!result) {
-        result = connection.workspace.getConfiguration({
-            scopeUri: resource,
-            section: 'ca65'
-        });
-        documentSettings.set(resource, result);
+/**
+ * Scans workspace files that aren't open, in worker threads if there are cores for them, and
+ * reports the progress.
+ * @param foundUris The files of the workspace.
+ * @param indexedUris The files whose tables are up to date, or close enough to be sent along with
+ *     the files of their translation units. The tables of the files scanned here are sent along
+ *     once they are scanned.
+ * @returns The files that were scanned before files of the workspace they include, without the
+ *     macros and constants of those.
+ */
+async function scanWorkspaceFiles(
+    uris: string[],
+    foundUris: Set<string>,
+    indexedUris: Set<string>
+): Promise<string[]> {
+    if (uris.length === 0) return [];
+
+    const progress = await connection.window.createWorkDoneProgress();
+    progress.begin('Indexing ca65 files', 0, `0/${uris.length}`);
+    let scannedCount = 0;
+    // When each file started to be scanned and when it was indexed, in the order of those events
+    let eventCount = 0;
+    const scanStarts: Map<string, number> = new Map();
+    const indexTimes: Map<string, number> = new Map();
+    // The includes a worker was sent the tables of with each file
+    const sentIncludes: Map<string, Set<string>> = new Map();
+    const onScanned = (uri: string, symbolTable: SymbolTable | undefined) => {
+        setIndexedSymbolTable(uri, symbolTable);
+        indexTimes.set(uri, eventCount++);
+        scannedCount++;
+        progress.report(Math.floor(scannedCount * 100 / uris.length), `${scannedCount}/${uris.length}`);
     }
-    return result;
+
+    const workerData: ScanWorkerData = {
+        workspaceFolderUris,
+        uris: [...foundUris],
+        macpackSettings: await Promise.all(
+            MACPACK_NAMES.map(name => getMacpackUri(name)!)
+                .map(async uri => [uri, await getDocumentSettings(uri)] as [string, Ca65Settings])
+        ),
+    };
+    // The indexed tables of the translation unit are sent along, so that macros and constants of
+    // included files are known.
+    const getScanRequest = async (uri: string): Promise<ScanRequest> => {
+        const settings = await getDocumentSettings(uri);
+        scanStarts.set(uri, eventCount++);
+        sentIncludes.set(uri, new Set(includesGraph.getTransitiveDependencies(uri)));
+        return {
+            settings,
+            translationUnit: [...includesGraph.getTranslationUnit(uri)].map(fileUri => ({
+                uri: fileUri,
+                includedFiles: [...includesGraph.getIncludes(fileUri)],
+                table: indexedUris.has(fileUri) || indexTimes.has(fileUri) ? symbolTables.get(fileUri) : undefined,
+            })),
+        };
+    };
+    const unscannedUris = await scanInWorkers(uris, workerData, getScanRequest, onScanned, connection.console);
+
+    // Files the workers didn't scan are scanned here.
+    for (const uri of unscannedUris) {
+        scanStarts.set(uri, eventCount++);
+        sentIncludes.delete(uri);
+        try {
+            const content = await fs.readFile(URI.parse(uri).fsPath, 'utf-8');
+            onScanned(uri, await scanDocument(TextDocument.create(uri, 'ca65', 0, content)));
+        } catch (e) {
+            connection.console.error(`Failed to scan ${uri}: ${e}`);
+            onScanned(uri, undefined);
+        }
+    }
+    progress.done();
+
+    // Which files a file includes is only known once it is scanned. Workers only have the tables
+    // of the includes that were known then, the main thread has all tables there are.
+    const isIndexedBefore = (uri: string, time: number) =>
+        indexedUris.has(uri) || (indexTimes.get(uri) ?? Infinity) < time;
+    return uris.filter(uri => {
+        const scanStart = scanStarts.get(uri) ?? Infinity;
+        const sent = sentIncludes.get(uri);
+        return [...includesGraph.getTransitiveDependencies(uri)].some(dependency =>
+            dependency !== uri
+            && foundUris.has(dependency)
+            && (!isIndexedBefore(dependency, scanStart) || (sent !== undefined && !sent.has(dependency)))
+        );
+    });
+}
+
+/**
+ * Adds the table of a file scanned or loaded by the initial scan to the index, or removes the file
+ * if it couldn't be scanned. Open documents are scanned from their text in the editor instead.
+ */
+function setIndexedSymbolTable(uri: string, symbolTable: SymbolTable | undefined) {
+    if (documents.get(uri)) return;
+    if (!symbolTable) {
+        symbolTables.delete(uri);
+        return;
+    }
+    symbolTables.set(uri, symbolTable);
+    includesGraph.updateIncludes(uri, symbolTable.includedFiles);
+    exportsMap.updateExports(uri, symbolTable.exports);
+}
+
+/**
+ * Reads the link targets of a workspace folder from its manifest or the commands of its build.
+ * @returns Whether they changed.
+ */
+async function loadProjectTargets(folderUri: string): Promise<boolean> {
+    let makeDryRun = false;
+    try {
+        const ca65Config = await connection.workspace.getConfiguration({ scopeUri: folderUri, section: 'ca65' });
+        makeDryRun = ca65Config?.makeDryRun === true;
+    } catch (e) {
+        connection.console.error(`Could not fetch 'ca65.makeDryRun' from client: ${e}`);
+    }
+    return projectTargets.loadTargets(folderUri, makeDryRun, connection.console);
 }
 
+/**
+ * Tells whether the table of a file was scanned with other settings than the file has now, as
+ * happens when the targets it is assembled for change with the files that include it.
+ */
+async function isScannedWithOtherSettings(uri: string): Promise<boolean> {
+    const symbolTable = symbolTables.get(uri);
+    if (!symbolTable || !uri.startsWith('file:')) return false;
+    return symbolTable.scannedSettings !== JSON.stringify(await getDocumentSettings(uri));
+}
+
+/**
+ * Rescans the files of a translation unit that are scanned with other settings than they have
+ * now.
+ */
+async function rescanFilesWithChangedSettings(uris: string[]) {
+    for (const uri of uris) {
+        try {
+            if (!await isScannedWithOtherSettings(uri)) continue;
+            await updateAndValidate(await getDocumentOrFile(uri), false);
+        } catch (err) {
+            connection.console.error(`Failed to rescan ${uri}, error: ${err}`);
+        }
+    }
+}
+
+/**
+ * Returns the open document of a file, or a document of its text on disk.
+ */
+async function getDocumentOrFile(uri: string): Promise<TextDocument> {
+    return documents.get(uri) ?? TextDocument.create(
+        uri, 'ca65', 0, await fs.readFile(URI.parse(uri).fsPath, 'utf-8')
+    );
+}
+
+// Files to rescan because the macros or constants of another file of their translation unit
+// changed. They are rescanned one at a time, after the files they include.
+const staleUris: Set<string> = new Set();
+let isRescanningStaleFiles = false;
+
+/**
+ * Rescans files that were scanned with macros and constants of other files that changed since.
+ */
+async function rescanStaleFiles(uris: string[]) {
+    for (const uri of uris) {
+        if (uri.startsWith('file:')) staleUris.add(uri);
+    }
+    if (isRescanningStaleFiles) return;
+
+    isRescanningStaleFiles = true;
+    while (staleUris.size > 0) {
+        const batch = includesGraph.sortByIncludes([...staleUris]);
+        staleUris.clear();
+        for (const uri of batch) {
+            if (!symbolTables.has(uri)) continue;
+            try {
+                await updateAndValidate(await getDocumentOrFile(uri), false, false, true);
+            } catch (err) {
+                connection.console.error(`Failed to rescan ${uri}, error: ${err}`);
+            }
+        }
+    }
+    isRescanningStaleFiles = false;
+}
+
+/**
+ * Reindexes the workspace after the link targets changed, since the settings files are scanned
+ * with depend on them.
+ */
+async function reindexWorkspace() {
+    const foundUris = new Set([...symbolTables.keys()].filter(uri => uri.startsWith('file:')));
+    const uris = [...foundUris].filter(uri => !documents.get(uri));
+    await scanWorkspaceFiles(uris, foundUris, foundUris);
+    for (const uri of symbolTables.keys()) {
+        deleteCachedResolutions(uri);
+    }
+    for (const document of documents.all()) {
+        await updateAndValidate(document, false);
+    }
+    await saveIndexCache(connection);
+}
+
+connection.onShutdown(async () => {
+    await saveIndexCache(connection);
+});
+
 // --- Central Document Update and Validation Logic ---
-async function updateAndValidate(document: TextDocument, debounce: boolean = true) {
+/**
+ * Scans a document and validates the files of its translation unit.
+ * @param incremental Whether to only rescan the lines that changed since the last scan.
+ * @param isStale Whether the document is rescanned because other files of its translation unit
+ *     changed, which rescans the rest of the translation unit already.
+ */
+async function updateAndValidate(
+    document: TextDocument,
+    debounce: boolean = true,
+    incremental: boolean = false,
+    isStale: boolean = false
+) {
+    if (!initializationGate.isOpen) {
+        // Requests that only need the document are served while the workspace is being indexed.
+        const scan = scanDocument(document).then(
+            symbolTable => { symbolTables.set(document.uri, symbolTable); },
+            err => connection.console.error(`Failed to scan ${document.uri}, error: ${err}`)
+        );
+        initializationGate.addDocumentScan(document.uri, scan);
+        await scan;
+    }
     await initializationGate.isInitialized;
     abortValidation();
     performanceMonitor.start('updateAndValidate');
@@ -198,21 +452,55 @@ async function updateAndValidate(document: TextDocument, debounce: boolean = tru
         allAffectedUris.add(uri);
     } 
 
-    const newSymbolTable = await scanDocument(document);
+    // Rescan only what the change affects if the document has been scanned before
+    let changes: RescanChanges | undefined;
+    const oldSymbolTable = symbolTables.get(document.uri);
+    // Incremental rescans tell which names they define themselves.
+    const oldDefinitions = incremental ? undefined : oldSymbolTable?.getDefinitionsSignature();
+    if (incremental && oldSymbolTable) {
+        try {
+            changes = await rescanDocument(document, oldSymbolTable);
+        } catch (err) {
+            connection.console.error(`Incremental rescan of ${document.uri} failed, error: ${err}`);
+        }
+    }
+
+    const newSymbolTable = changes ? oldSymbolTable! : await scanDocument(document);
     symbolTables.set(document.uri, newSymbolTable);
     includesGraph.updateIncludes(document.uri, newSymbolTable.includedFiles);
     exportsMap.updateExports(document.uri, newSymbolTable.exports);
 
-    for (const uri of includesGraph.getTranslationUnit(document.uri)) {
+    const translationUnit = new Set(includesGraph.getTranslationUnit(document.uri));
+    const isSameTranslationUnit = translationUnit.size === allAffectedUris.size
+        && [...translationUnit].every(uri => allAffectedUris.has(uri));
+    for (const uri of translationUnit) {
         allAffectedUris.add(uri);
     }
 
     for (const uri of allAffectedUris) {
-        deleteCachedResolutions(uri);
+        if (changes && isSameTranslationUnit) {
+            deleteCachedResolutionsOfNames(uri, changes.touchedNames);
+        } else {
+            deleteCachedResolutions(uri);
+        }
     }
 
     triggerValidation(document.uri, debounce, allAffectedUris);
+    publishInactiveRegions(document.uri);
     performanceMonitor.stop('updateAndValidate');
+
+    // The other files of the translation unit may define other names with the macros and
+    // constants of the document now. Files that joined or left it may be assembled for other
+    // targets.
+    const otherUris = [...allAffectedUris].filter(uri => uri !== document.uri);
+    const definitionsChanged = changes
+        ? changes.definedNames.size > 0
+        : oldDefinitions !== newSymbolTable.getDefinitionsSignature();
+    if (definitionsChanged && !isStale) {
+        rescanStaleFiles(otherUris);
+    } else if (!isSameTranslationUnit) {
+        rescanFilesWithChangedSettings(otherUris);
+    }
 }
 
 // Custom request from the client to dump performance stats
@@ -250,7 +538,7 @@ connection.onRequest('ca65/dumpSymbolTables', () => {
 
 // --- Event Listeners ---
 documents.onDidChangeContent(async (change) => {
-    await updateAndValidate(change.document);
+    await updateAndValidate(change.document, true, true);
 });
 
 documents.onDidOpen(async (change) => {
@@ -261,7 +549,31 @@ connection.onDidChangeWatchedFiles(async (params: DidChangeWatchedFilesParams) =
     await initializationGate.isInitialized;
 
     connection.console.log('Watched file change detected. Re-scanning affected files.');
+    // Manifests list their sources with globs, which files that come and go may match.
+    const changedTargetsFolders: Set<string> = new Set();
+    const targetsFileUris: Set<string> = new Set();
     for (const event of params.changes) {
+        const folderUri = getWorkspaceFolderOfFile(event.uri);
+        if (folderUri && projectTargets.isTargetsFile(folderUri, event.uri, event.type !== FileChangeType.Changed)) {
+            changedTargetsFolders.add(folderUri);
+            if (projectTargets.isTargetsFile(folderUri, event.uri, false)) targetsFileUris.add(event.uri);
+        }
+    }
+    let targetsChanged = false;
+    for (const folderUri of changedTargetsFolders) {
+        if (await loadProjectTargets(folderUri)) targetsChanged = true;
+    }
+
+    // Debug info and maps are read when they are needed, but the address hints show them, and
+    // the import hints show the libraries imports are from.
+    const librariesChanged = params.changes.some(event => isObjectFile(event.uri))
+        && await loadLibraries(connection.console);
+    if (librariesChanged || params.changes.some(event => isDebugInfoFile(event.uri))) {
+        connection.languages.inlayHint.refresh().catch(() => {});
+    }
+
+    for (const event of params.changes) {
+        if (targetsFileUris.has(event.uri) || isDebugInfoFile(event.uri) || isObjectFile(event.uri)) continue;
         const openDoc = documents.get(event.uri);
         if (openDoc) {
             // Already handled via onDidSave or onDidChangeContent
@@ -289,9 +601,14 @@ connection.onDidChangeWatchedFiles(async (params: DidChangeWatchedFilesParams) =
             connection.console.error(`Failed to handle watched file: ${event.uri}, error: ${err}`);
         }
     }
+
+    if (targetsChanged) {
+        await reindexWorkspace();
+    }
 });
 
 // --- Initialize Features from Modules ---
+initializeWorkspace(connection);
 initializeDiagnostics(connection, documents);
 initializeHoverProvider(connection, documents);
 initializeDocumentSymbolProvider(connection);
@@ -305,6 +622,9 @@ initializeWorkspaceSymbolProvider(connection);
 initializeCompletionProvider(connection, documents);
 initializeInlayHintProvider(connection, documents);
 initializeDocumentHighlightProvider(connection, documents);
+initializeInactiveRegions(connection, documents);
+initializeMacpacks(connection);
+initializeDebugInfo(connection);
 
 // --- Start the server ---
 documents.listen(connection);
@@ -7,10 +7,29 @@ export interface Ca65Settings {
     autoIncludeExtensions: string[];
     anonymousLabelIndexHints: boolean;
     importFromHints: boolean;
+    registerWidthHints: boolean;
     additionalExtensions: string[];
     smartFolding: boolean;
     implicitImports: boolean;
     lineContinuations: boolean;
+    dimInactiveRegions: boolean;
+    cpu: string;
+    makeDryRun: boolean;
+    // Workspace-relative path of the ld65 config
+    linkerConfig: string;
+    // Workspace-relative paths of the map and debug info ld65 writes
+    mapFile: string;
+    debugFile: string;
+    addressHints: boolean;
+    // Workspace-relative wildcard-compatible paths of prebuilt object files and libraries, or of
+    // the directories they are in
+    libraryPaths: string[];
+    // The symbols the link target of the file defines on the command line. Not a setting: it is
+    // taken from the project manifest (see projectTargets.ts).
+    defines?: Record<string, number>;
+    // The features given with `--feature` on the command line of the file. Not a setting either:
+    // it is taken from the commands of the build (see compileCommands.ts).
+    features?: string[];
 }
 
 export const documentSettings: Map<string, Thenable<Ca65Settings>> = new Map();
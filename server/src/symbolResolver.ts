@@ -5,8 +5,9 @@ import {
 } from 'vscode-languageserver-types';
 import { SymbolTable, Symbol, SymbolTableEntity, Macro, Scope, ScopeKind, MacroKind, SymbolKind, ReferenceInfo, Export, Import } from './symbolTable';
 import { IncludesGraph } from './includesGraph';
-import { exportsMap, performanceMonitor, symbolTables } from './server';
+import { exportsMap, performanceMonitor, projectTargets, symbolTables } from './workspace';
 import { Ca65Settings } from './settings';
+import { getLibrarySymbol, isLibraryUri } from './objectFiles';
 
 const cachedLocalResolutionsPerUri: Map<string, Map<ReferenceInfo, SymbolTableEntity>> = new Map();
 const cachedExportResolutionsPerUri: Map<string, Map<Export, Symbol | Scope>> = new Map();
@@ -16,6 +17,25 @@ export function deleteCachedResolutions(uri: string) {
     cachedExportResolutionsPerUri.delete(uri);
 }
 
+/**
+ * Deletes the cached resolutions of a document that involve any of the given names, either as
+ * a part of the referenced name or as the name of the entity it resolved to.
+ */
+export function deleteCachedResolutionsOfNames(uri: string, names: Set<string>) {
+    const localResolutions = cachedLocalResolutionsPerUri.get(uri);
+    for (const [ref, entity] of localResolutions ?? []) {
+        if (names.has(ref.name) || names.has(entity.name) || ref.qualifiers.some(name => names.has(name))) {
+            localResolutions!.delete(ref);
+        }
+    }
+    const exportResolutions = cachedExportResolutionsPerUri.get(uri);
+    for (const [exportEntity, entity] of exportResolutions ?? []) {
+        if (names.has(exportEntity.name) || names.has(entity.name)) {
+            exportResolutions!.delete(exportEntity);
+        }
+    }
+}
+
 export function resolveReferenceAtPosition(
     uri: string,
     position: Position,
@@ -59,20 +79,15 @@ export function resolveReference(
     // If there is no exported symbol, treat the import itself as the definition since we may
     // be looking at a library header.
     if (localReference instanceof Import) {
-        const resolvedImport = resolveImport(localReference.name, symbolTables, includesGraph);
+        const resolvedImport = resolveImport(localReference.name, ref.uri, symbolTables, includesGraph);
         performanceMonitor.stop('resolveReference');
         return resolvedImport ? resolvedImport : localReference; 
     }
 
     // If we didn't find a local reference, and implicit imports are enabled,
     // and this is a symbol reference in the global scope, try to resolve it as an implicit import.
-    if (
-        !localReference
-        && implicitImports
-        && ref.context === 'symbol'
-        && (ref.qualifiers.length === 0 || ref.qualifiers[0].length === 0 /* Global scope */)
-    ) {
-        const impliedImport = resolveImport(ref.name, symbolTables, includesGraph);
+    if (!localReference && isImplicitImport(ref, implicitImports)) {
+        const impliedImport = resolveImport(ref.name, ref.uri, symbolTables, includesGraph);
         performanceMonitor.stop('resolveReference');
         return impliedImport;
     }
@@ -82,6 +97,40 @@ export function resolveReference(
     return localReference;
 }
 
+/**
+ * Resolves a reference like resolveReference, but to every symbol that exports it when it is
+ * resolved through an import and the targets the file is linked into export different ones.
+ */
+export function resolveReferenceCandidates(
+    ref: ReferenceInfo,
+    allSymbolTables: Map<string, SymbolTable>,
+    includesGraph: IncludesGraph,
+    implicitImports: boolean
+): SymbolTableEntity[] {
+    const localReference = resolveLocalReference(ref, allSymbolTables, includesGraph);
+    let importName: string | undefined;
+    if (localReference instanceof Import) {
+        importName = localReference.name;
+    } else if (!localReference && isImplicitImport(ref, implicitImports)) {
+        importName = ref.name;
+    }
+
+    const candidates = importName !== undefined
+        ? resolveImportCandidates(importName, ref.uri, allSymbolTables, includesGraph)
+        : [];
+    if (candidates.length > 0) return candidates;
+    return localReference ? [localReference] : [];
+}
+
+/**
+ * Tells whether a reference that isn't defined is taken to be imported.
+ */
+function isImplicitImport(ref: ReferenceInfo, implicitImports: boolean): boolean {
+    return implicitImports
+        && ref.context === 'symbol'
+        && (ref.qualifiers.length === 0 || ref.qualifiers[0].length === 0 /* Global scope */);
+}
+
 /**
  * Resolves a reference within a translation unit.
  */
@@ -151,29 +200,74 @@ export function resolveLocalReference(
         return importEntity;
     }
 
+    // Names defined on the command line by the link target of the file
+    const define = projectTargets.getDefineScope(ref.uri)
+        ?.findDefinition(ref.name, ref.qualifiers, ref.context);
+    if (define) {
+        cachedResolutions.set(ref, define);
+        performanceMonitor.stop('resolveLocalReference_uncached');
+        return define;
+    }
+
     performanceMonitor.stop('resolveLocalReference_uncached');
     return undefined;
 }
 
 /**
  * Resolves an import to the symbol that exports it across the workspace.
- * @param importEntity The reference to resolve.
+ * @param importName The name of the imported symbol.
+ * @param fromUri The importing file. It only sees the exports of the files it is linked with.
  * @param allSymbolTables A map of all parsed symbol tables in the workspace.
  * @param includesGraph The dependency graph of all .include directives.
  * @returns A SymbolTableEntity or undefined if not found.
  */
 export function resolveImport(
     importName: string,
+    fromUri: string,
     allSymbolTables: Map<string, SymbolTable>,
     includesGraph: IncludesGraph,
 ): Symbol | Scope | undefined {
+    for (const resolved of resolveLinkedExports(importName, fromUri, allSymbolTables, includesGraph)) {
+        return resolved;
+    }
+    return undefined;
+}
+
+/**
+ * Resolves an import to every symbol that exports it to the importing file. A file linked into
+ * several targets can get a different one from each.
+ */
+export function resolveImportCandidates(
+    importName: string,
+    fromUri: string,
+    allSymbolTables: Map<string, SymbolTable>,
+    includesGraph: IncludesGraph,
+): (Symbol | Scope)[] {
+    return [...new Set(resolveLinkedExports(importName, fromUri, allSymbolTables, includesGraph))];
+}
+
+function* resolveLinkedExports(
+    importName: string,
+    fromUri: string,
+    allSymbolTables: Map<string, SymbolTable>,
+    includesGraph: IncludesGraph,
+): Generator<Symbol | Scope> {
+    // Exports to the first target of the file come first, since it is scanned for that one, and
+    // exports of the sources before those of prebuilt libraries, like ld65 links them.
+    const linkedExports: { exportEntity: Export, order: number, isLibrary: boolean }[] = [];
     for (const exportEntity of exportsMap.get(importName)) {
+        const order = projectTargets.getLinkOrder(fromUri, exportEntity.uri);
+        if (order === undefined) continue;
+        linkedExports.push({ exportEntity, order, isLibrary: isLibraryUri(exportEntity.uri) });
+    }
+    linkedExports.sort((a, b) => a.order - b.order || Number(a.isLibrary) - Number(b.isLibrary));
+
+    for (const { exportEntity } of linkedExports) {
         const resolved = resolveExport(exportEntity, allSymbolTables, includesGraph);
         if (resolved) {
-            return resolved;
+            yield resolved;
         }
     }
-    return undefined;
 }
 
 /**
@@ -188,6 +282,10 @@ export function resolveExport(
     allSymbolTables: Map<string, SymbolTable>,
     includesGraph: IncludesGraph,
 ): Symbol | Scope | undefined {
+    // Libraries have no sources to find the definition in.
+    const librarySymbol = getLibrarySymbol(exportEntity);
+    if (librarySymbol) return librarySymbol;
+
     const cachedResolution = cachedExportResolutionsPerUri.get(exportEntity.uri)?.get(exportEntity);
     if (cachedResolution) {
         return cachedResolution
@@ -277,9 +375,12 @@ export function getLSPSymbolKind(item: SymbolTableEntity): LSPSymbolKind {
             case SymbolKind.DataLabel: return LSPSymbolKind.Array;
             case SymbolKind.StringLabel: return LSPSymbolKind.String;
             case SymbolKind.Constant: return LSPSymbolKind.Constant;
-            case SymbolKind.Variable: return LSPSymbolKind.Variable;
+            case SymbolKind.Variable:
+            case SymbolKind.RepeatCounter: return LSPSymbolKind.Variable;
             case SymbolKind.StructMember: return LSPSymbolKind.Field;
             case SymbolKind.EnumMember: return LSPSymbolKind.EnumMember;
+            case SymbolKind.MacroParameter: return LSPSymbolKind.TypeParameter;
+            case SymbolKind.MacroLocal: return LSPSymbolKind.Variable;
             default: return LSPSymbolKind.Key;
         }
     }
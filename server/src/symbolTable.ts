@@ -1,8 +1,31 @@
 import {
+    Diagnostic,
     Position,
     Range,
 } from 'vscode-languageserver-types';
-import { performanceMonitor } from './server';
+import { performanceMonitor } from './workspace';
+import { ExpressionNode, NameNode } from './expressionParser';
+import { Ca65Features } from './features';
+
+export interface Segment {
+    name: string;
+    // The address size the segment was declared with, e.g. `zeropage`. Undefined is absolute.
+    addressSize?: string;
+}
+
+/**
+ * The name of a segment in a `.segment` directive, without the quotes.
+ */
+export interface SegmentReference {
+    name: string;
+    range: Range;
+}
+
+// The 65816 register widths ca65 assumes, in bits.
+export interface RegisterWidths {
+    accumulator: 8 | 16;
+    index: 8 | 16;
+}
 
 export class SymbolTableEntity {
     range: Range;
@@ -12,7 +35,7 @@ export class SymbolTableEntity {
         public name: string,
         public definition: Range,
         public scope: Scope | null,
-        public segment?: string | null
+        public segment?: Segment | null
     ) {
         this.name = name;
         this.definition = definition;
@@ -32,7 +55,10 @@ export class SymbolTableEntity {
         const scopeStack = [];
         let scope = this.scope;
         while (scope && scope.name !== '') {
-            scopeStack.unshift(scope.name);
+            // Repeat blocks and cheap local regions don't scope names like scopes do.
+            if (scope.kind !== ScopeKind.Repeat && scope.kind !== ScopeKind.CheapLocal) {
+                scopeStack.unshift(scope.name);
+            }
             scope = scope.scope
         }
         return scopeStack;
@@ -48,16 +74,23 @@ export enum SymbolKind {
     Variable = "variable",
     StructMember = "struct member",
     EnumMember = "enum member",
+    RepeatCounter = "repeat counter",
+    MacroParameter = "macro parameter",
+    MacroLocal = "macro local",
 }
 
 export class Symbol extends SymbolTableEntity {
+    // The defining expression of constants, variables, and enum members, or the offset of struct
+    // members.
+    public value?: ExpressionNode;
+
     constructor(
         uri: string,
         public kind: SymbolKind,
         name: string,
         definition: Range,
         parentScope: Scope | null,
-        public segment?: string,
+        public segment?: Segment,
     ) {
         super(uri, name, definition, parentScope);
         this.segment = segment;
@@ -105,6 +138,14 @@ export enum ScopeKind {
     Struct = "struct",
     Union = "union",
     Enum = "enum",
+    // A `.repeat` block. It only holds the counter; everything else defined in it belongs to the
+    // enclosing scope.
+    Repeat = "repeat",
+    // The parameters and `.local` names of a macro. It isn't part of the scope tree, since only
+    // the macro's body sees them.
+    Macro = "macro",
+    // The cheap local labels of a CheapLocalRegion. It isn't part of the scope tree either.
+    CheapLocal = "cheap local",
 }
 
 export class Scope extends SymbolTableEntity {
@@ -112,13 +153,16 @@ export class Scope extends SymbolTableEntity {
     private symbols: Map<string, Symbol[]> = new Map();
     private imports: Map<string, Import[]> = new Map();
 
+    // The size in bytes of a struct or union, if it is known.
+    public size?: number;
+
     constructor(
         uri: string,
         public kind: ScopeKind,
         name: string,
         definition: Range,
         parentScope: Scope | null,
-        public segment?: string,
+        public segment?: Segment,
     ) {
         super(uri, name, definition, parentScope, segment);
     }
@@ -127,8 +171,11 @@ export class Scope extends SymbolTableEntity {
         name: string,
         definition: Range,
         kind: SymbolKind,
-        segment?: string
+        segment?: Segment
     ): Symbol {
+        if (this.kind === ScopeKind.Repeat && kind !== SymbolKind.RepeatCounter && this.scope) {
+            return this.scope.addSymbol(name, definition, kind, segment);
+        }
         if (!this.symbols.has(name)) {  
             this.symbols.set(name, []);
         }
@@ -142,6 +189,9 @@ export class Scope extends SymbolTableEntity {
         definition: Range,
         kind: ImportKind,
     ): Import {
+        if (this.kind === ScopeKind.Repeat && this.scope) {
+            return this.scope.addImport(name, definition, kind);
+        }
         if (!this.imports.has(name)) {  
             this.imports.set(name, []);
         }
@@ -150,7 +200,7 @@ export class Scope extends SymbolTableEntity {
         return importEntity;
     }
 
-    addChildScope(name: string, definition: Range, kind: ScopeKind, segment?: string): Scope {
+    addChildScope(name: string, definition: Range, kind: ScopeKind, segment?: Segment): Scope {
         if (!this.childScopes.has(name)) {  
             this.childScopes.set(name, []);
         }
@@ -159,6 +209,55 @@ export class Scope extends SymbolTableEntity {
         return scope;
     }
 
+    /**
+     * Takes the symbols, imports, and child scopes defined from a line on out of the scope.
+     */
+    takeEntitiesFrom(line: number): SymbolTableEntity[] {
+        const taken: SymbolTableEntity[] = [];
+        const maps = [this.symbols, this.imports, this.childScopes] as Map<string, SymbolTableEntity[]>[];
+        for (const map of maps) {
+            for (const [name, entities] of map) {
+                const kept = entities.filter(entity => entity.definition.start.line < line);
+                if (kept.length === entities.length) continue;
+                taken.push(...entities.filter(entity => entity.definition.start.line >= line));
+                if (kept.length > 0) {
+                    map.set(name, kept);
+                } else {
+                    map.delete(name);
+                }
+            }
+        }
+        return taken;
+    }
+
+    /**
+     * Adds a symbol, import, or child scope taken out with takeEntitiesFrom back.
+     */
+    restoreEntity(entity: SymbolTableEntity): void {
+        const map = (entity instanceof Symbol ? this.symbols
+            : entity instanceof Import ? this.imports
+            : this.childScopes) as Map<string, SymbolTableEntity[]>;
+        if (!map.has(entity.name)) {
+            map.set(entity.name, []);
+        }
+        map.get(entity.name)?.push(entity);
+    }
+
+    /**
+     * Renames the scope, e.g. an anonymous scope named after a line that moved.
+     */
+    rename(name: string): void {
+        const parent = this.scope;
+        const siblings = parent?.childScopes.get(this.name);
+        const index = siblings?.indexOf(this) ?? -1;
+        if (parent && siblings && index >= 0) {
+            siblings.splice(index, 1);
+            if (siblings.length === 0) parent.childScopes.delete(this.name);
+        }
+        this.name = name;
+        if (parent && index >= 0) parent.restoreEntity(this);
+    }
+
     getSymbol(name: string): Symbol | undefined {
         const arr = this.symbols.get(name);
         if (!arr) return undefined;
@@ -167,6 +266,27 @@ export class Scope extends SymbolTableEntity {
         return arr[0];
     }
 
+    /**
+     * Removes the definitions of a name that a predicate picks, e.g. those a macro expansion made
+     * of its `.local` names.
+     */
+    removeSymbolDefinitions(name: string, predicate: (definition: Symbol) => boolean): void {
+        const remaining = this.getSymbolDefinitions(name).filter(definition => !predicate(definition));
+        if (remaining.length > 0) {
+            this.symbols.set(name, remaining);
+        } else {
+            this.symbols.delete(name);
+        }
+    }
+
+    /**
+     * Returns every definition of a name in this scope, in definition order. Symbols redefined
+     * with `.set` have more than one.
+     */
+    getSymbolDefinitions(name: string): Symbol[] {
+        return this.symbols.get(name) ?? [];
+    }
+
     getSymbols(): Iterable<Symbol> {
         return (function* (values: Iterable<Symbol[]>) {
             for (const arr of values) {
@@ -192,7 +312,15 @@ export class Scope extends SymbolTableEntity {
     }
 
     getChildScope(name: string): Scope | undefined {
-        return this.childScopes.get(name)?.[0];
+        const scope = this.childScopes.get(name)?.[0];
+        if (scope) return scope;
+
+        // Scopes in repeat blocks are named as if they were defined outside of them.
+        for (const childScope of this.getChildScopes()) {
+            if (childScope.kind !== ScopeKind.Repeat) continue;
+            const nestedScope = childScope.getChildScope(name);
+            if (nestedScope) return nestedScope;
+        }
     }
 
     getChildScopes(): Iterable<Scope> {
@@ -330,6 +458,12 @@ export enum MacroKind {
 }
 
 export class Macro extends SymbolTableEntity {
+    // Parameter names and body lines (without comments) of `.macro` style macros.
+    public params: string[] = [];
+    public body: string[] = [];
+    // The definitions of the parameters and `.local` names, which references in the body resolve to.
+    public localScope: Scope;
+
     constructor(
         uri: string,
         public kind: MacroKind,
@@ -337,6 +471,7 @@ export class Macro extends SymbolTableEntity {
         definition: Range,
     ) {
         super(uri, name, definition, null);
+        this.localScope = new Scope(uri, ScopeKind.Macro, name, definition, null);
     }
 }
 
@@ -350,9 +485,127 @@ export class ReferenceInfo {
         public scope: Scope,
         // Effective calling entity for call hierarchy analysis.
         public callingEntity?: SymbolTableEntity,
+        // The expression node the reference was parsed from, if any.
+        public node?: NameNode,
     ) {}
 }
 
+/**
+ * One branch of a conditional assembly block, from its `.if`, `.elseif` or `.else` line up to the
+ * line of the next branch or the `.endif`.
+ */
+export interface ConditionalBranch {
+    range: Range;
+    // Whether the branch is assembled, or undefined if its condition couldn't be evaluated.
+    active: boolean | undefined;
+}
+
+export interface ConditionalBlock {
+    range: Range;
+    branches: ConditionalBranch[];
+}
+
+/**
+ * The lines from one cheap local boundary to the next, e.g. from a normal label to the next one.
+ * Cheap local labels are only visible in the region they are defined in.
+ */
+export interface CheapLocalRegion {
+    // The normal label or scope that starts the region, if any.
+    owner?: SymbolTableEntity;
+    scope: Scope;
+}
+
+// The lists of a SymbolTable that the scanner appends to as it goes.
+const SCANNED_LISTS = [
+    'references',
+    'includedFiles',
+    'anonymousLabelLines',
+    'cheapLocalRegions',
+    'imports',
+    'exports',
+    'featureChanges',
+    'cpuChanges',
+    'registerWidthHints',
+    'diagnostics',
+    'anonymousStructRanges',
+    'conditionalBlocks',
+    'inactiveRanges',
+    'segmentReferences',
+] as const;
+type ScannedList = typeof SCANNED_LISTS[number];
+
+/**
+ * The state of the scanner at the start of a top-level block, i.e. at a line outside of any
+ * scope, macro definition, conditional, or .repeat block. The file can be rescanned from there.
+ */
+export interface ScanCheckpoint {
+    line: number;
+    segment: Segment;
+    segmentInherited: boolean;
+    segmentStack: { segment: Segment, inherited: boolean }[];
+    segmentAddressSizes: Map<string, string>;
+    features: Ca65Features;
+    cpu: string;
+    cpuStack: string[];
+    registerWidths: RegisterWidths;
+    smartMode: boolean;
+    // The label that the following commands extend, with its range end and kind at this point.
+    label?: Symbol;
+    labelEnd?: Position;
+    labelKind?: SymbolKind;
+    labelKindSet: boolean;
+    anonymousLabelIndex: number;
+    cheapLocalScope: Scope;
+    // The length of each list of the table at this point.
+    lengths: Record<ScannedList, number>;
+    // The names the block looked up while it was scanned. If one of them is defined differently,
+    // the block may scan differently.
+    lookups: Set<string>;
+}
+
+/**
+ * What the lines from a checkpoint on added to a SymbolTable, taken out of the table while they
+ * are rescanned. Each block starts at one of the checkpoints and ends at the next.
+ */
+export class DetachedBlocks {
+    constructor(
+        public checkpoints: ScanCheckpoint[],
+        public lists: { [K in ScannedList]: SymbolTable[K] },
+        // Macros, and the symbols, imports, and scopes defined at the top level or as cheap
+        // locals, in line order.
+        public entities: SymbolTableEntity[],
+        public anonymousLabelReferences: { index: number, range: Range }[],
+        public cCommentLines: number[],
+        // Where the part of each block starts in each list, and where the last one ends.
+        private offsets: Record<DetachedList, number>[],
+    ) {}
+
+    /**
+     * Returns what the blocks from one index up to another added.
+     */
+    getPart(from: number, to: number): DetachedPart {
+        const part = {} as Record<DetachedList, unknown[]>;
+        for (const list of DETACHED_LISTS) {
+            const source = list in this.lists
+                ? this.lists[list as ScannedList]
+                : this[list as Exclude<DetachedList, ScannedList>];
+            part[list] = (source as unknown[]).slice(this.offsets[from][list], this.offsets[to][list]);
+        }
+        return part as DetachedPart;
+    }
+}
+
+const DETACHED_LISTS = [...SCANNED_LISTS, 'entities', 'anonymousLabelReferences', 'cCommentLines'] as const;
+type DetachedList = typeof DETACHED_LISTS[number];
+
+/**
+ * What some of the blocks in DetachedBlocks added.
+ */
+export type DetachedPart = DetachedBlocks['lists'] & Pick<
+    DetachedBlocks,
+    'entities' | 'anonymousLabelReferences' | 'cCommentLines'
+>;
+
 /**
  * The main container for all parsed information for a file.
  */
@@ -361,6 +614,7 @@ export class SymbolTable {
     private macros: Map<string, Macro> = new Map();
 
     public references: ReferenceInfo[] = [];
+    private referencesByNode: Map<NameNode, ReferenceInfo> = new Map();
     public memoizedReferences: Map<ReferenceInfo, SymbolTableEntity> = new Map();
 
     public includedFiles: string[] = [];
@@ -368,9 +622,46 @@ export class SymbolTable {
     public anonymousLabelLines: number[] = [];
     public anonymousLabelReferences: Map<number, Range[]> = new Map();
 
+    // In the order they appear in the file.
+    public cheapLocalRegions: CheapLocalRegion[] = [];
+
     public imports: Import[] = [];
     public exports: Export[] = [];
 
+    // Address sizes of the segments declared in this file and the files it includes.
+    public segmentAddressSizes: Map<string, string> = new Map();
+    // The segment in effect at the end of the file, or undefined if that is the segment it was
+    // included in.
+    public finalSegment?: string;
+    // The names of the segments of `.segment` directives, in line order.
+    public segmentReferences: SegmentReference[] = [];
+
+    // Snapshots of the features after each `.feature` directive, from the line they apply to on.
+    public featureChanges: { line: number, features: Ca65Features }[] = [];
+    // The CPU after each CPU directive, from the line it applies to on.
+    public cpuChanges: { line: number, cpu: string }[] = [];
+    // Lines that start inside a multi-line C comment.
+    public cCommentLines: Set<number> = new Set();
+
+    // The register widths at the start of 65816 procs and after each change, at the end of the line.
+    public registerWidthHints: { position: Position, widths: RegisterWidths }[] = [];
+    // Problems found while scanning.
+    public diagnostics: Diagnostic[] = [];
+
+    // Anonymous structs and unions, which have no scope of their own.
+    public anonymousStructRanges: Range[] = [];
+
+    public conditionalBlocks: ConditionalBlock[] = [];
+    // Lines excluded from assembly by a conditional known to be false.
+    public inactiveRanges: Range[] = [];
+
+    // The text the table was scanned from, and the scanner state at the start of each top-level
+    // block of it, in line order.
+    public scannedText: string = '';
+    public checkpoints: ScanCheckpoint[] = [];
+    // The settings the table was scanned with, as JSON.
+    public scannedSettings: string = '';
+
     constructor(public uri: string) {
         this.rootScope = new Scope(
             uri,
@@ -418,6 +709,191 @@ export class SymbolTable {
      */
     public addReference(info: ReferenceInfo): void {
         this.references.push(info);
+        // Qualifier parts are 'scope' references; the name itself carries the node's context.
+        if (info.node && info.context !== 'scope') {
+            this.referencesByNode.set(info.node, info);
+        }
+    }
+
+    getScannedListLengths(): Record<ScannedList, number> {
+        const lengths = {} as Record<ScannedList, number>;
+        for (const list of SCANNED_LISTS) {
+            lengths[list] = this[list].length;
+        }
+        return lengths;
+    }
+
+    /**
+     * Takes everything the blocks from a checkpoint on added out of the table, leaving the table
+     * as it was when the scanner reached the checkpoint.
+     */
+    detachBlocks(index: number): DetachedBlocks {
+        const checkpoints = this.checkpoints.splice(index);
+        const start = checkpoints[0];
+        const lists = {} as Record<ScannedList, unknown[]>;
+        for (const list of SCANNED_LISTS) {
+            lists[list] = this[list].splice(start?.lengths[list] ?? this[list].length);
+        }
+        for (const reference of lists.references as ReferenceInfo[]) {
+            if (reference.node && this.referencesByNode.get(reference.node) === reference) {
+                this.referencesByNode.delete(reference.node);
+            }
+        }
+
+        const startLine = start?.line ?? Infinity;
+        const entities: SymbolTableEntity[] = [];
+        // Top-level blocks only define names at the top level and as cheap locals.
+        const scopes = [
+            this.rootScope,
+            ...start ? [start.cheapLocalScope] : [],
+            ...(lists.cheapLocalRegions as CheapLocalRegion[]).map(region => region.scope)
+        ];
+        for (const scope of scopes) {
+            entities.push(...scope.takeEntitiesFrom(startLine));
+        }
+        for (const [name, macro] of this.macros) {
+            if (macro.definition.start.line < startLine) continue;
+            this.macros.delete(name);
+            entities.push(macro);
+        }
+        entities.sort((a, b) => a.definition.start.line - b.definition.start.line);
+
+        const anonymousLabelReferences: { index: number, range: Range }[] = [];
+        for (const [index, ranges] of this.anonymousLabelReferences) {
+            const kept = ranges.filter(range => range.start.line < startLine);
+            if (kept.length === ranges.length) continue;
+            for (const range of ranges) {
+                if (range.start.line >= startLine) anonymousLabelReferences.push({ index, range });
+            }
+            if (kept.length > 0) {
+                this.anonymousLabelReferences.set(index, kept);
+            } else {
+                this.anonymousLabelReferences.delete(index);
+            }
+        }
+        anonymousLabelReferences.sort((a, b) => a.range.start.line - b.range.start.line);
+
+        const cCommentLines = [...this.cCommentLines].filter(line => line >= startLine).sort((a, b) => a - b);
+        for (const line of cCommentLines) {
+            this.cCommentLines.delete(line);
+        }
+        if (start) this.segmentAddressSizes = new Map(start.segmentAddressSizes);
+
+        // The lines are still those of the detached text, so blocks can be told apart by them.
+        const lineLists: [DetachedList, number[]][] = [
+            ['entities', entities.map(entity => entity.definition.start.line)],
+            ['anonymousLabelReferences', anonymousLabelReferences.map(reference => reference.range.start.line)],
+            ['cCommentLines', cCommentLines],
+        ];
+        const offsets: Record<DetachedList, number>[] = [];
+        for (let i = 0; i <= checkpoints.length; i++) {
+            const line = checkpoints[i]?.line ?? Infinity;
+            const offset = {} as Record<DetachedList, number>;
+            for (const list of SCANNED_LISTS) {
+                offset[list] = i < checkpoints.length ? checkpoints[i].lengths[list] - this[list].length : lists[list].length;
+            }
+            for (const [list, lines] of lineLists) {
+                let found = i === 0 ? 0 : offsets[i - 1][list];
+                while (found < lines.length && lines[found] < line) found++;
+                offset[list] = found;
+            }
+            offsets.push(offset);
+        }
+
+        return new DetachedBlocks(
+            checkpoints,
+            lists as DetachedBlocks['lists'],
+            entities,
+            anonymousLabelReferences,
+            cCommentLines,
+            offsets
+        );
+    }
+
+    /**
+     * Adds blocks taken out with detachBlocks back at the end of the table.
+     * @param checkpoints The checkpoints of the blocks.
+     * @param part What the blocks added.
+     */
+    reattachBlocks(checkpoints: ScanCheckpoint[], part: DetachedPart): void {
+        const base = { ...checkpoints[0]?.lengths };
+        const lengths = this.getScannedListLengths();
+        for (const checkpoint of checkpoints) {
+            for (const list of SCANNED_LISTS) {
+                checkpoint.lengths[list] += lengths[list] - base[list];
+            }
+            this.checkpoints.push(checkpoint);
+        }
+        for (const list of SCANNED_LISTS) {
+            if (list === 'references') continue;
+            (this[list] as unknown[]).push(...part[list]);
+        }
+        for (const reference of part.references) {
+            this.addReference(reference);
+        }
+        for (const entity of part.entities) {
+            if (entity instanceof Macro) {
+                this.macros.set(entity.name, entity);
+            } else {
+                entity.scope?.restoreEntity(entity);
+            }
+        }
+        for (const { index, range } of part.anonymousLabelReferences) {
+            if (!this.anonymousLabelReferences.has(index)) {
+                this.anonymousLabelReferences.set(index, []);
+            }
+            this.anonymousLabelReferences.get(index)?.push(range);
+        }
+        for (const line of part.cCommentLines) {
+            this.cCommentLines.add(line);
+        }
+    }
+
+    /**
+     * Returns the features in effect at a line, or undefined if no `.feature` directive before it
+     * changed them.
+     */
+    getFeaturesAtLine(line: number): Ca65Features | undefined {
+        let features: Ca65Features | undefined;
+        for (const change of this.featureChanges) {
+            if (change.line > line) break;
+            features = change.features;
+        }
+        return features;
+    }
+
+    /**
+     * Returns the CPU in effect at a line, or undefined if no CPU directive before it changed it.
+     */
+    getCpuAtLine(line: number): string | undefined {
+        let cpu: string | undefined;
+        for (const change of this.cpuChanges) {
+            if (change.line > line) break;
+            cpu = change.cpu;
+        }
+        return cpu;
+    }
+
+    /**
+     * Returns the cheap local region a position is in.
+     */
+    getCheapLocalRegionAtPosition(position: Position): CheapLocalRegion | undefined {
+        let found: CheapLocalRegion | undefined;
+        for (const region of this.cheapLocalRegions) {
+            const start = region.scope.range.start;
+            if (start.line > position.line || start.line === position.line && start.character > position.character) {
+                break;
+            }
+            found = region;
+        }
+        return found;
+    }
+
+    /**
+     * Returns the reference to the final part of a parsed name, e.g. `bar` in `Foo::bar`.
+     */
+    getReferenceForNode(node: NameNode): ReferenceInfo | undefined {
+        return this.referencesByNode.get(node);
     }
 
     /**
@@ -453,10 +929,42 @@ export class SymbolTable {
         ];
     }
 
+    /**
+     * Describes what the other files of the translation unit may take from this one while they
+     * are scanned: its macros, and the names it defines with their values and sizes. Files scan
+     * the same way with tables that have the same description.
+     */
+    getDefinitionsSignature(): string {
+        const lines: string[] = [];
+        const describe = (scope: Scope, path: string) => {
+            for (const symbol of scope.getSymbols()) {
+                // Expression nodes link back to their parents.
+                const value = JSON.stringify(symbol.value ?? null, (key, item) => key === 'parent' ? undefined : item);
+                lines.push(`${path}${symbol.name} ${symbol.kind} ${value}`);
+            }
+            for (const child of scope.getChildScopes()) {
+                lines.push(`${path}${child.name} ${child.kind} ${child.size}`);
+                describe(child, `${path}${child.name}::`);
+            }
+        };
+        describe(this.rootScope, '');
+        for (const macro of this.getAllMacros()) {
+            lines.push(`${macro.name} ${macro.kind} ${macro.params.join(',')}`, ...macro.body);
+        }
+        return lines.join('\n');
+    }
+
     getAllReferences(): ReferenceInfo[] {
         return this.references;
     }
 
+    /**
+     * Returns the segment name of a `.segment` directive at a position.
+     */
+    getSegmentReferenceAtPosition(position: Position): SegmentReference | undefined {
+        return this.segmentReferences.find(reference => this.isPositionInRange(position, reference.range));
+    }
+
     getReferenceAtPosition(position: Position): ReferenceInfo | null {
         performanceMonitor.start('getReferenceAtPosition');
         // TODO: make this more performant, possibly with binary search.
@@ -532,7 +1040,7 @@ export class SymbolTable {
 
             // Symbols
             for (const sym of scope.getSymbols()) {
-                console.log(`${pad}  * Symbol: ${sym.name} [${sym.kind}] (${sym.range.start.line}:${sym.range.start.character} - ${sym.range.end.line}:${sym.range.end.character})${sym.segment ? ' Segment: ' + sym.segment : ''}`);
+                console.log(`${pad}  * Symbol: ${sym.name} [${sym.kind}] (${sym.range.start.line}:${sym.range.start.character} - ${sym.range.end.line}:${sym.range.end.character})${sym.segment ? ' Segment: ' + sym.segment.name : ''}`);
             }
 
             // Recurse child scopes
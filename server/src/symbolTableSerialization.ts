@@ -0,0 +1,105 @@
+/**
+ * This module turns symbol tables into bytes and back, for the index cache and for tables scanned
+ * in worker threads. Serialization keeps the fields of the objects in a table, and the identity of
+ * objects referenced more than once, but not their prototypes, which are put back when the table
+ * is deserialized.
+ */
+
+import * as v8 from 'v8';
+import {
+    Export,
+    Import,
+    Macro,
+    ReferenceInfo,
+    Scope,
+    Symbol,
+    SymbolTable,
+    SymbolTableEntity,
+} from './symbolTable';
+
+// The classes of the objects in a SymbolTable
+const CLASSES: Record<string, Function> = {
+    SymbolTable,
+    SymbolTableEntity,
+    Scope,
+    Symbol,
+    Import,
+    Export,
+    Macro,
+    ReferenceInfo,
+};
+
+interface SerializedTable {
+    table: SymbolTable;
+    // The objects of the table that are instances of each of CLASSES.
+    instances: Record<string, object[]>;
+}
+
+/**
+ * Serializes a symbol table. Its checkpoints are left out: they are only needed to rescan edits
+ * of open documents, which are scanned again when they are opened.
+ */
+export function serializeSymbolTable(table: SymbolTable): Buffer {
+    const savedTable = Object.assign(
+        Object.create(SymbolTable.prototype) as SymbolTable,
+        table,
+        { checkpoints: [] }
+    );
+    const serialized: SerializedTable = { table: savedTable, instances: getClassInstances(savedTable) };
+    return v8.serialize(serialized);
+}
+
+export function deserializeSymbolTable(data: Uint8Array): SymbolTable {
+    const serialized: SerializedTable = v8.deserialize(data);
+    for (const [className, instances] of Object.entries(serialized.instances)) {
+        const prototype = CLASSES[className].prototype;
+        for (const instance of instances) {
+            Object.setPrototypeOf(instance, prototype);
+        }
+    }
+    return serialized.table;
+}
+
+/**
+ * Finds the objects reachable from a value that are instances of CLASSES, by class name.
+ */
+function getClassInstances(value: object): Record<string, object[]> {
+    const instances: Map<object, object[]> = new Map(
+        Object.values(CLASSES).map(constructor => [constructor.prototype, []])
+    );
+    const visited: Set<object> = new Set();
+    const pending: unknown[] = [value];
+    const visit = (item: unknown) => {
+        if (typeof item === 'object' && item !== null && !visited.has(item)) {
+            visited.add(item);
+            pending.push(item);
+        }
+    }
+    visited.add(value);
+    while (pending.length > 0) {
+        const next: unknown = pending.pop();
+        if (typeof next !== 'object' || next === null) continue;
+        if (next instanceof Map) {
+            for (const [key, item] of next) {
+                visit(key);
+                visit(item);
+            }
+            continue;
+        }
+        if (next instanceof Set || Array.isArray(next)) {
+            for (const item of next) visit(item);
+            continue;
+        }
+        const prototype = Object.getPrototypeOf(next);
+        const instancesOfClass = instances.get(prototype);
+        if (instancesOfClass) {
+            instancesOfClass.push(next);
+        } else if (prototype !== Object.prototype && prototype !== null) {
+            throw new Error(`Cannot serialize an instance of ${prototype.constructor?.name}`);
+        }
+        for (const item of Object.values(next)) visit(item);
+    }
+    return Object.fromEntries(
+        Object.entries(CLASSES).map(([name, constructor]) => [name, instances.get(constructor.prototype)!])
+    );
+}
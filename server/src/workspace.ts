@@ -0,0 +1,72 @@
+/**
+ * This module holds the state the server's features share: the workspace folders and their link
+ * targets, the index of the workspace, and the settings of each document. It doesn't set up the
+ * connection to the client, so that the scanner can also run in worker threads (see
+ * scanWorker.ts).
+ */
+
+import { _Connection } from 'vscode-languageserver/node';
+import { IncludesGraph } from './includesGraph';
+import { SymbolTable } from './symbolTable';
+import { ExportsMap } from './exportsMap';
+import { ProjectTargets } from './projectTargets';
+import { Ca65Settings, documentSettings } from './settings';
+import { Performance as PerformanceMonitor } from './performance';
+
+export const workspaceFolderUris: string[] = [];
+export const symbolTables = new Map<string, SymbolTable>();
+export const includesGraph = new IncludesGraph();
+export const exportsMap = new ExportsMap();
+export const projectTargets = new ProjectTargets(includesGraph);
+export const performanceMonitor = new PerformanceMonitor();
+
+let connection: _Connection | undefined;
+
+export const initializationGate = (() => {
+    let resolve: () => void;
+    const promise = new Promise<void>(r => {
+        resolve = r;
+    });
+    // Scans of open documents made while the workspace is being indexed
+    const documentScans: Map<string, Promise<unknown>> = new Map();
+    const gate = {
+        isInitialized: promise,
+        isOpen: false,
+        open: () => {
+            gate.isOpen = true;
+            documentScans.clear();
+            resolve();
+        },
+        addDocumentScan: (uri: string, scan: Promise<unknown>) => {
+            documentScans.set(uri, scan);
+        },
+        /**
+         * Resolves once the symbol table of a document can be used by requests that only need the
+         * document: when the document was scanned on its own, or the workspace was indexed.
+         */
+        isDocumentScanned: (uri: string): Promise<unknown> => {
+            return Promise.race([promise, documentScans.get(uri) ?? promise]);
+        },
+    };
+    return gate;
+})();
+
+export function initializeWorkspace(clientConnection: _Connection) {
+    connection = clientConnection;
+}
+
+// Helper function to get the setting for a document, with those of its link target
+export function getDocumentSettings(resource: string): Thenable<Ca65Settings> {
+    let result = documentSettings.get(resource);
+    if (!result) {
+        if (!connection) {
+            return Promise.reject(new Error(`No settings for ${resource}`));
+        }
+        result = connection.workspace.getConfiguration({
+            scopeUri: resource,
+            section: 'ca65'
+        });
+        documentSettings.set(resource, result);
+    }
+    return result.then(settings => projectTargets.applyTargetSettings(resource, settings));
+}
@@ -3,7 +3,7 @@ import {
     WorkspaceSymbolParams,
     SymbolInformation,
 } from 'vscode-languageserver/node';
-import { initializationGate, symbolTables } from './server';
+import { initializationGate, symbolTables } from './workspace';
 import { getLSPSymbolKind } from './symbolResolver';
 
 export function initializeWorkspaceSymbolProvider(connection: _Connection) {